@@ -1,29 +1,29 @@
-import React, { useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { TransportCalculator } from './components/TransportCalculator';
 import { Chat } from './components/Chat';
 import { Toaster } from './components/Toast';
+import { SessionRestoreBanner } from './components/SessionRestoreBanner';
+import { ClaimsDashboard } from './components/ClaimsDashboard';
 import { AIGeneratedIcon } from './components/icons';
-import type { Toast } from './types';
+import { useAppDispatch, useAppState } from './store/AppStoreProvider';
+import type { CalculatorAction, CalculatorActionResult, CalculatorController } from './types';
 
 // Base64 encoded logo
 const logoSrc = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAQAAAAEACAYAAABccqhmAAAD1ElEQVR4nO3ZsW1bUQBA0WfIZv8bL3gDJmACxgavZ/gcWAGlQFICV+B5a/75r3+9A4A7F/j8ANQACCAAgAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggggAACCCCAAAIIIIAAAggg/d8ABb35v/5p89dAAAAAElFTkSuQmCC";
 
 function App() {
-  const [toasts, setToasts] = useState<Toast[]>([]);
-  const [sharedInvoiceFile, setSharedInvoiceFile] = useState<File | null>(null);
+  const { toasts, claims } = useAppState();
+  const dispatch = useAppDispatch();
+  const calculatorRef = useRef<CalculatorController>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const awaitingCount = claims.filter(claim => claim.status === 'submitted').length;
 
-  const showToast = (message: string, type: 'success' | 'error') => {
-    const newToast: Toast = {
-      id: Date.now(),
-      message,
-      type,
-    };
-    setToasts(prev => [...prev, newToast]);
-  };
+  const dismissToast = useCallback((id: number) => dispatch({ type: 'toastDismissed', id }), [dispatch]);
 
-  const dismissToast = (id: number) => {
-    setToasts(prev => prev.filter(toast => toast.id !== id));
-  };
+  // Actions confirmed in the chat are handed to the calculator.
+  const runCalculatorAction = (action: CalculatorAction): Promise<CalculatorActionResult> =>
+    calculatorRef.current?.runAction(action)
+      ?? Promise.resolve({ ok: false, message: 'The Transport Calculator is not available.' });
 
   return (
     <div className="h-screen bg-gray-50 text-gray-800 flex flex-col overflow-hidden">
@@ -36,20 +36,38 @@ function App() {
               <img src={logoSrc} alt="App Logo" className="h-8 w-8" />
               <h1 className="text-xl font-bold text-indigo-600">Work Transport & Document Assistant</h1>
             </div>
+            <button
+              onClick={() => setShowHistory(prev => !prev)}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              {showHistory ? 'Back to calculator' : 'Claims history'}
+              {!showHistory && awaitingCount > 0 && (
+                <span className="rounded-full bg-amber-100 px-2 text-xs text-amber-800" title="Submitted claims awaiting reimbursement">
+                  {awaitingCount}
+                </span>
+              )}
+            </button>
           </div>
         </div>
       </header>
       
       <main className="flex-1 min-h-0 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 pt-6 pb-6 overflow-hidden flex flex-col">
-        <div className="flex-1 min-h-0">
+        <SessionRestoreBanner />
+        {showHistory && (
+          <div className="flex-1 min-h-0">
+            <ClaimsDashboard />
+          </div>
+        )}
+        {/* Kept mounted while the history is open, so a reply or a calculation in progress carries on. */}
+        <div className={showHistory ? 'hidden' : 'flex-1 min-h-0'}>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full">
             
             <div className="w-full h-full min-h-0">
-              <TransportCalculator showToast={showToast} onInvoiceFileShare={setSharedInvoiceFile} />
+              <TransportCalculator controllerRef={calculatorRef} />
             </div>
 
             <div className="w-full h-full min-h-0">
-              <Chat showToast={showToast} sharedInvoiceFile={sharedInvoiceFile} />
+              <Chat onCalculatorAction={runCalculatorAction} />
             </div>
           </div>
         </div>
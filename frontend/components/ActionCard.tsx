@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import type { ChatAction, ChatActionStatus } from '../types';
+import { SpinnerIcon } from './icons';
+
+interface ActionCardProps {
+  action: ChatAction;
+  onApply: () => Promise<void>;
+  onDismiss: () => void;
+}
+
+const STATUS_STYLES: Record<ChatActionStatus, string> = {
+  pending: 'border-indigo-200 bg-indigo-50',
+  applied: 'border-green-200 bg-green-50',
+  dismissed: 'border-gray-200 bg-gray-50 opacity-70',
+  rejected: 'border-red-200 bg-red-50',
+  failed: 'border-amber-200 bg-amber-50',
+};
+
+const STATUS_LABELS: Record<ChatActionStatus, string> = {
+  pending: 'Suggested action',
+  applied: 'Done',
+  dismissed: 'Dismissed',
+  rejected: 'Not allowed',
+  failed: 'Could not complete',
+};
+
+export const ActionCard: React.FC<ActionCardProps> = ({ action, onApply, onDismiss }) => {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className={`mt-2 rounded-lg border p-2 text-xs ${STATUS_STYLES[action.status]}`}>
+      <p className="font-semibold text-gray-500 uppercase tracking-wide text-[10px]">{STATUS_LABELS[action.status]}</p>
+      <p className="text-sm text-gray-800">{action.description}</p>
+      {action.result && <p className="mt-1 text-gray-600">{action.result}</p>}
+      {action.status === 'pending' && (
+        <div className="mt-2 flex gap-2">
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isApplying}
+            className="inline-flex items-center rounded-md bg-indigo-500 hover:bg-indigo-600 px-2 py-1 font-semibold text-white disabled:bg-indigo-300"
+          >
+            {isApplying && <SpinnerIcon className="animate-spin h-3 w-3 mr-1" />}
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={onDismiss}
+            disabled={isApplying}
+            className="rounded-md px-2 py-1 font-semibold text-gray-600 hover:bg-gray-200"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
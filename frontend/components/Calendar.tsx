@@ -1,21 +1,92 @@
 
 import React, { useState } from 'react';
 import { ChevronLeftIcon, ChevronRightIcon } from './icons';
+import { SelectionPatternPanel } from './SelectionPatternPanel';
+import type { CalendarDaySummary } from '../types';
+import { isSameDay, toISODate } from '../utils/dates';
+import {
+  addDates,
+  daysBetween,
+  daysInMonth,
+  isWeekday,
+  matchWeekdayPattern,
+  removeDates,
+  sortDates,
+  toggleDates,
+} from '../utils/dateSelection';
 
 interface CalendarProps {
   selectedDates: Date[];
   onDateChange: (dates: Date[]) => void;
+  /** Per-day spend from an uploaded invoice, keyed by YYYY-MM-DD. */
+  dayDetails?: Record<string, CalendarDaySummary>;
+  /** Bank holiday names keyed by YYYY-MM-DD. */
+  holidays?: Record<string, string>;
+  /** Days of annual leave, as YYYY-MM-DD. Marking leave is only offered with `onLeaveChange`. */
+  leaveDates?: string[];
+  onLeaveChange?: (dates: string[]) => void;
+  /** The month shown, for a parent that keeps it; otherwise the calendar starts at today. */
+  visibleMonth?: Date;
+  onVisibleMonthChange?: (month: Date) => void;
 }
 
-const isSameDay = (a: Date, b: Date) =>
-  a.getFullYear() === b.getFullYear() &&
-  a.getMonth() === b.getMonth() &&
-  a.getDate() === b.getDate();
+// Days with travel are shaded by how much they cost relative to the most
+// expensive day in the invoice. Selected ones keep their shade and get an
+// indigo ring, so the cost pattern stays readable while picking days.
+const HEAT_CLASSES = ['bg-amber-50', 'bg-amber-100', 'bg-amber-200', 'bg-amber-300'];
 
-export const Calendar: React.FC<CalendarProps> = ({ selectedDates, onDateChange }) => {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+const heatClass = (total: number, max: number) => {
+  if (max <= 0) return HEAT_CLASSES[0];
+  const level = Math.min(HEAT_CLASSES.length - 1, Math.floor((total / max) * HEAT_CLASSES.length));
+  return HEAT_CLASSES[level];
+};
+
+export const Calendar: React.FC<CalendarProps> = ({
+  selectedDates,
+  onDateChange,
+  dayDetails,
+  holidays = {},
+  leaveDates = [],
+  onLeaveChange,
+  visibleMonth,
+  onVisibleMonthChange,
+}) => {
+  const [ownMonth, setOwnMonth] = useState(new Date());
+  const currentMonth = visibleMonth ?? ownMonth;
+  const [isMarkingLeave, setIsMarkingLeave] = useState(false);
+  // The last day clicked without shift; shift-clicking another day selects
+  // everything in between, even across months.
+  const [rangeAnchor, setRangeAnchor] = useState<Date | null>(null);
+  const [showPattern, setShowPattern] = useState(false);
+
+  const leaveSet = new Set(leaveDates);
+  // Bulk selections skip bank holidays and leave; single clicks don't, in
+  // case someone really did go in that day.
+  const isAvailable = (day: Date) => {
+    const key = toISODate(day);
+    return !holidays[key] && !leaveSet.has(key);
+  };
 
-  const handleDateClick = (day: Date) => {
+  const handleLeaveClick = (day: Date) => {
+    const key = toISODate(day);
+    if (leaveSet.has(key)) {
+      onLeaveChange?.(leaveDates.filter(date => date !== key));
+    } else {
+      onLeaveChange?.([...leaveDates, key].sort());
+      onDateChange(removeDates(selectedDates, [day]));
+    }
+  };
+
+  const handleDateClick = (day: Date, extendRange: boolean) => {
+    if (isMarkingLeave) {
+      handleLeaveClick(day);
+      return;
+    }
+    if (extendRange && rangeAnchor) {
+      onDateChange(addDates(selectedDates, daysBetween(rangeAnchor, day).filter(isAvailable)));
+      return;
+    }
+    setRangeAnchor(day);
     const existingIndex = selectedDates.findIndex(d => isSameDay(d, day));
     let newDates: Date[];
     if (existingIndex > -1) {
@@ -23,16 +94,32 @@ export const Calendar: React.FC<CalendarProps> = ({ selectedDates, onDateChange
     } else {
       newDates = [...selectedDates, day];
     }
-    onDateChange(newDates.sort((a, b) => a.getTime() - b.getTime()));
+    onDateChange(sortDates(newDates));
+  };
+
+  const handleSelectWeekdays = () => {
+    onDateChange(addDates(selectedDates, daysInMonth(currentMonth).filter(d => isWeekday(d) && isAvailable(d))));
+  };
+
+  const handleInvertMonth = () => {
+    onDateChange(toggleDates(selectedDates, daysInMonth(currentMonth).filter(isAvailable)));
+  };
+
+  const handleClearMonth = () => {
+    onDateChange(removeDates(selectedDates, daysInMonth(currentMonth)));
+  };
+
+  const handleApplyPattern = (weekdays: number[], start: Date, end: Date) => {
+    onDateChange(addDates(selectedDates, matchWeekdayPattern(start, end, weekdays).filter(isAvailable)));
+    setShowPattern(false);
   };
 
   const changeMonth = (amount: number) => {
-    setCurrentMonth(prev => {
-      const newDate = new Date(prev);
-      newDate.setDate(1); // Avoid month skipping issues
-      newDate.setMonth(prev.getMonth() + amount);
-      return newDate;
-    });
+    const newDate = new Date(currentMonth);
+    newDate.setDate(1); // Avoid month skipping issues
+    newDate.setMonth(currentMonth.getMonth() + amount);
+    if (onVisibleMonthChange) onVisibleMonthChange(newDate);
+    else setOwnMonth(newDate);
   };
 
   const renderHeader = () => (
@@ -49,6 +136,40 @@ export const Calendar: React.FC<CalendarProps> = ({ selectedDates, onDateChange
     </div>
   );
 
+  const renderToolbar = () => {
+    const buttonClasses = "px-2 py-1 rounded-md border border-gray-200 text-xs font-medium text-gray-600 hover:bg-gray-100 transition-colors";
+    const months = new Set(selectedDates.map(d => `${d.getFullYear()}-${d.getMonth()}`));
+    return (
+      <div className="mb-4 space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleSelectWeekdays} className={buttonClasses}>All weekdays</button>
+          <button type="button" onClick={() => setShowPattern(prev => !prev)} className={buttonClasses}>Repeat pattern...</button>
+          <button type="button" onClick={handleInvertMonth} className={buttonClasses}>Invert month</button>
+          <button type="button" onClick={handleClearMonth} className={buttonClasses}>Clear month</button>
+          {onLeaveChange && (
+            <button
+              type="button"
+              onClick={() => setIsMarkingLeave(prev => !prev)}
+              className={isMarkingLeave ? `${buttonClasses} bg-gray-700 text-white border-gray-700 hover:bg-gray-800` : buttonClasses}
+            >
+              {isMarkingLeave ? 'Done marking leave' : 'Mark leave'}
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          {isMarkingLeave ? 'Click days to mark or unmark them as leave.' : (
+            <>
+              {selectedDates.length > 0
+                ? `${selectedDates.length} day${selectedDates.length === 1 ? '' : 's'} selected${months.size > 1 ? ` across ${months.size} months` : ''}. `
+                : ''}
+              Shift-click to select a range.
+            </>
+          )}
+        </p>
+      </div>
+    );
+  };
+
   const renderDaysOfWeek = () => {
     const days = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
     return (
@@ -70,20 +191,34 @@ export const Calendar: React.FC<CalendarProps> = ({ selectedDates, onDateChange
         startDate.setDate(startDate.getDate() + 1);
     }
 
+    const maxSpend = dayDetails ? Math.max(0, ...Object.values(dayDetails).map((day: CalendarDaySummary) => day.total)) : 0;
+
     return (
-      <div className="grid grid-cols-7 gap-1">
+      <div className="grid grid-cols-7 gap-1 select-none">
         {days.map((d, i) => {
           const isCurrentMonth = d.getMonth() === currentMonth.getMonth();
           const isSelected = selectedDates.some(selected => isSameDay(selected, d));
           const isToday = isSameDay(d, new Date());
+          const key = toISODate(d);
+          const details = isCurrentMonth ? dayDetails?.[key] : undefined;
+          const holiday = isCurrentMonth ? holidays[key] : undefined;
+          const isLeave = isCurrentMonth && leaveSet.has(key);
           
-          let cellClasses = "flex items-center justify-center h-9 w-9 rounded-full text-sm cursor-pointer transition-all duration-200 ";
+          let cellClasses = `relative group flex flex-col items-center justify-center ${dayDetails ? 'h-11 rounded-lg' : 'h-9 w-9 rounded-full'} text-sm cursor-pointer transition-all duration-200 `;
 
           if (!isCurrentMonth) {
             cellClasses += "text-gray-300 cursor-default";
           } else {
-             if (isSelected) {
-              cellClasses += "bg-indigo-600 text-white font-semibold shadow-md hover:bg-indigo-700";
+             if (isSelected && details) {
+              cellClasses += `${heatClass(details.total, maxSpend)} text-indigo-900 font-semibold ring-2 ring-inset ring-indigo-600 shadow-md hover:ring-4${holiday ? ' outline outline-2 outline-red-400' : ''}`;
+            } else if (isSelected) {
+              cellClasses += `bg-indigo-600 text-white font-semibold shadow-md hover:bg-indigo-700${holiday ? ' ring-2 ring-red-400' : ''}`;
+            } else if (isLeave) {
+              cellClasses += "bg-gray-100 text-gray-400 line-through hover:bg-gray-200";
+            } else if (details) {
+              cellClasses += `${heatClass(details.total, maxSpend)} text-gray-800 ring-1 ring-inset ring-amber-400 hover:ring-2`;
+            } else if (holiday) {
+              cellClasses += "text-red-600 font-semibold hover:bg-red-50";
             } else if (isToday) {
               cellClasses += "bg-indigo-100 text-indigo-700 font-semibold";
             } else {
@@ -91,13 +226,39 @@ export const Calendar: React.FC<CalendarProps> = ({ selectedDates, onDateChange
             }
           }
 
+          const annotation = [holiday, isLeave ? 'Annual leave' : undefined].filter(Boolean).join(' · ');
+
           return (
             <div
               key={i}
               className={cellClasses}
-              onClick={() => isCurrentMonth && handleDateClick(d)}
+              onClick={(e) => isCurrentMonth && handleDateClick(d, e.shiftKey)}
+              title={details ? undefined : annotation || undefined}
             >
-              {d.getDate()}
+              <span>{d.getDate()}</span>
+              {details && (
+                <>
+                  <span className={`text-[10px] leading-none ${isSelected ? 'text-indigo-800' : 'text-gray-600'}`}>
+                    £{details.total.toFixed(2)}
+                  </span>
+                  <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-56 bg-gray-800 text-white text-xs text-left font-normal rounded py-2 px-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-10">
+                    <p className="font-semibold mb-1">
+                      {d.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long' })}
+                    </p>
+                    {annotation && <p className="text-amber-300 mb-1">{annotation}</p>}
+                    <ul className="space-y-0.5">
+                      {details.journeys.map(journey => (
+                        <li key={journey.sourceRow} className="flex justify-between gap-2">
+                          <span className="truncate">
+                            {journey.startTime && `${journey.startTime} `}{journey.description}
+                          </span>
+                          <span className="flex-shrink-0">£{journey.charge.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </>
+              )}
             </div>
           );
         })}
@@ -108,6 +269,14 @@ export const Calendar: React.FC<CalendarProps> = ({ selectedDates, onDateChange
   return (
     <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
       {renderHeader()}
+      {renderToolbar()}
+      {showPattern && (
+        <SelectionPatternPanel
+          visibleMonth={currentMonth}
+          onApply={handleApplyPattern}
+          onCancel={() => setShowPattern(false)}
+        />
+      )}
       {renderDaysOfWeek()}
       {renderCells()}
     </div>
@@ -1,15 +1,121 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { SendIcon, InfoIcon } from './icons';
-import type { ChatMessage } from '../types';
-import { FileUpload } from './FileUpload';
+import { SendIcon, InfoIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
+import type {
+  AnswerFeedback,
+  CalculatorAction,
+  CalculatorActionResult,
+  ChatAction,
+  ChatHistoryEntry,
+  ChatMessage,
+  ChatSource,
+  ChatThread,
+  MessageTree,
+  RetrievedPassage,
+} from '../types';
+import { ActionCard } from './ActionCard';
+import { DocumentLibrary } from './DocumentLibrary';
+import { FeedbackControls } from './FeedbackControls';
+import { MarkdownContent } from './MarkdownContent';
+import { RedactionReview } from './RedactionReview';
+import { SourceViewer } from './SourceViewer';
+import { ThreadSidebar } from './ThreadSidebar';
+import { ApiError, describeApiError, isAbortError, isBackendConfigured, streamChatMessage } from '../services/api';
+import { formatRetrievalAnswer, passageToSource } from '../services/retrieval';
+import { flushFeedbackQueue, submitFeedback } from '../services/feedbackQueue';
+import { parseTranscript, transcriptFileName, transcriptToJson, transcriptToMarkdown, TranscriptError } from '../services/transcript';
+import { outgoingFile, redactText } from '../services/redaction';
+import { downloadFile } from '../utils/download';
+import { activePath, appendMessage, branchPosition, createTree, historyTo, selectSibling, updateMessage } from '../services/messageTree';
+import { useDocumentLibrary } from '../hooks/useDocumentLibrary';
+import { autoTitle, useThreads } from '../hooks/useThreads';
+import { useRedactionReview } from '../hooks/useRedactionReview';
+import { selectSharedInvoice } from '../store/appStore';
+import { useAppDispatch, useAppSelector, useAppState, useShowToast } from '../store/AppStoreProvider';
+import type { RedactionDecisions } from '../hooks/useRedactionReview';
 
-const AssistantMessage: React.FC<{ content: string }> = ({ content }) => {
-  const formattedContent = content
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(?!`)(.*?)(?!`)\*/g, '<em>$1</em>')
-    .replace(/\n\* (.*?)/g, '\n<li>$1</li>')
-    .replace(/(\n<li>.*<\/li>)/gs, (match) => `<ul>${match.replace(/\n/g, '')}</ul>`);
+const UPLOAD_GREETING = 'Hello! Upload a document and ask me anything about it.';
+const INVOICE_GREETING = 'Hello! I\'m ready to answer questions about your TFL invoice. What would you like to know?';
+
+const greetingFor = (hasInvoice: boolean): ChatMessage => ({
+  role: 'assistant',
+  content: hasInvoice ? INVOICE_GREETING : UPLOAD_GREETING,
+});
+
+const ThinkingIndicator: React.FC = () => (
+  <div className="flex items-center space-x-1">
+    <span className="text-gray-500">Thinking</span>
+    <div className="bg-gray-400 w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+    <div className="bg-gray-400 w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+    <div className="bg-gray-400 w-1.5 h-1.5 rounded-full animate-bounce"></div>
+  </div>
+);
+
+const SourceChips: React.FC<{ sources: ChatSource[]; onOpen: (source: ChatSource, index: number) => void }> = ({ sources, onOpen }) => (
+  <div className="mt-2 pt-2 border-t border-gray-100 flex flex-wrap gap-1">
+    {sources.map((source, i) => {
+      const location = source.page ? `p.${source.page}` : source.rows ? `rows ${source.rows.start}–${source.rows.end}` : '';
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => onOpen(source, i + 1)}
+          title={source.snippet}
+          className="inline-flex items-center gap-1 max-w-[14rem] rounded-full bg-gray-100 hover:bg-indigo-100 px-2 py-0.5 text-xs text-gray-700"
+        >
+          <span className="font-semibold text-indigo-600">[{i + 1}]</span>
+          <span className="truncate">{source.documentName}</span>
+          {location && <span className="text-gray-500 flex-shrink-0">{location}</span>}
+        </button>
+      );
+    })}
+  </div>
+);
+
+interface BranchControls {
+  index: number;
+  count: number;
+  disabled: boolean;
+  onSwitch: (offset: number) => void;
+}
+
+const BranchSwitcher: React.FC<BranchControls> = ({ index, count, disabled, onSwitch }) => {
+  if (count < 2) return null;
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+      <button
+        type="button"
+        onClick={() => onSwitch(-1)}
+        disabled={disabled || index === 0}
+        aria-label="Previous version"
+        className="hover:text-gray-800 disabled:opacity-40"
+      >
+        <ChevronLeftIcon className="h-3 w-3" />
+      </button>
+      <span>{index + 1}/{count}</span>
+      <button
+        type="button"
+        onClick={() => onSwitch(1)}
+        disabled={disabled || index === count - 1}
+        aria-label="Next version"
+        className="hover:text-gray-800 disabled:opacity-40"
+      >
+        <ChevronRightIcon className="h-3 w-3" />
+      </button>
+    </span>
+  );
+};
+
+const AssistantMessage: React.FC<{
+  message: ChatMessage;
+  branch: BranchControls;
+  onOpenSource: (source: ChatSource, index: number) => void;
+  onRegenerate?: () => void; // absent for the greeting and while answering
+  onApplyAction: (action: ChatAction) => Promise<void>;
+  onDismissAction: (action: ChatAction) => void;
+  onFeedback?: (feedback: Omit<AnswerFeedback, 'delivery'>) => Promise<void>; // absent when there's nothing to rate
+}> = ({ message, branch, onOpenSource, onRegenerate, onApplyAction, onDismissAction, onFeedback }) => {
+  const { content, status, error, sources, actions } = message;
 
   return (
     <div className="col-start-1 col-end-12 p-3 rounded-lg">
@@ -18,179 +124,638 @@ const AssistantMessage: React.FC<{ content: string }> = ({ content }) => {
                 A
             </div>
             <div className="relative ml-3 text-sm bg-white py-2 px-4 shadow rounded-xl">
-                <div className="prose prose-sm" dangerouslySetInnerHTML={{ __html: formattedContent }} />
+                {message.retrievalOnly && (
+                  <p className="mb-1 text-xs font-medium text-gray-500">Retrieval only · matching passages, no generated answer</p>
+                )}
+                {status === 'streaming' && !content ? (
+                  <ThinkingIndicator />
+                ) : (
+                  <MarkdownContent content={content} />
+                )}
+                {status === 'streaming' && content && (
+                  <span className="inline-block w-1.5 h-4 bg-gray-400 animate-pulse align-middle" />
+                )}
+                {status === 'stopped' && (
+                  <p className="mt-1 text-xs text-gray-400">{content ? 'Stopped' : 'Stopped before answering'}</p>
+                )}
+                {status === 'error' && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {error ?? 'Something went wrong.'}{content && ' The answer above may be incomplete.'}
+                  </p>
+                )}
+                {sources && sources.length > 0 && <SourceChips sources={sources} onOpen={onOpenSource} />}
+                {actions?.map(action => (
+                  <ActionCard
+                    key={action.id}
+                    action={action}
+                    onApply={() => onApplyAction(action)}
+                    onDismiss={() => onDismissAction(action)}
+                  />
+                ))}
+                {(branch.count > 1 || onRegenerate || onFeedback) && (
+                  <div className="mt-1 flex flex-wrap items-center gap-3">
+                    <BranchSwitcher {...branch} />
+                    {onRegenerate && (
+                      <button type="button" onClick={onRegenerate} className="text-xs text-gray-500 hover:text-indigo-600">
+                        Regenerate
+                      </button>
+                    )}
+                    {onFeedback && <FeedbackControls feedback={message.feedback} onSubmit={onFeedback} />}
+                  </div>
+                )}
             </div>
         </div>
     </div>
   );
 };
 
-const UserMessage: React.FC<{ content: string }> = ({ content }) => (
+const UserMessage: React.FC<{
+  content: string;
+  branch: BranchControls;
+  onEdit?: (content: string) => void; // absent while answering
+}> = ({ content, branch, onEdit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const edited = draft?.trim();
+    setDraft(null);
+    if (edited && edited !== content && onEdit) onEdit(edited);
+  };
+
+  return (
     <div className="col-start-2 col-end-13 p-3 rounded-lg">
         <div className="flex items-center justify-start flex-row-reverse">
             <div className="flex items-center justify-center h-10 w-10 rounded-full bg-teal-500 flex-shrink-0 text-white font-bold">
                 U
             </div>
             <div className="relative mr-3 text-sm bg-teal-100 py-2 px-4 shadow rounded-xl">
-                <div>{content}</div>
+                {draft === null ? (
+                  <div>{content}</div>
+                ) : (
+                  <form onSubmit={submitEdit} className="flex flex-col gap-2 min-w-[16rem]">
+                    <textarea
+                      autoFocus
+                      value={draft}
+                      onChange={e => setDraft(e.target.value)}
+                      onKeyDown={e => e.key === 'Escape' && setDraft(null)}
+                      rows={3}
+                      className="w-full border rounded-lg p-2 focus:outline-none focus:border-indigo-300"
+                    />
+                    <div className="flex justify-end gap-2 text-xs">
+                      <button type="button" onClick={() => setDraft(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+                      <button type="submit" disabled={!onEdit} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+                        Save &amp; send
+                      </button>
+                    </div>
+                  </form>
+                )}
+                {draft === null && (branch.count > 1 || onEdit) && (
+                  <div className="mt-1 flex items-center justify-end gap-3">
+                    <BranchSwitcher {...branch} />
+                    {onEdit && (
+                      <button type="button" onClick={() => setDraft(content)} className="text-xs text-teal-700 hover:text-teal-900">
+                        Edit
+                      </button>
+                    )}
+                  </div>
+                )}
             </div>
         </div>
     </div>
-);
+  );
+};
 
 export const Chat: React.FC<{ 
-  showToast: (message: string, type: 'success' | 'error') => void;
-  sharedInvoiceFile?: File | null;
-}> = ({ showToast, sharedInvoiceFile }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'assistant', content: 'Hello! Upload a document and ask me anything about it.' }
-  ]);
-  const [inputValue, setInputValue] = useState('');
+  onCalculatorAction?: (action: CalculatorAction) => Promise<CalculatorActionResult>;
+}> = ({ onCalculatorAction }) => {
+  const { chat: { activeThreadId, draft: inputValue }, alwaysRedact } = useAppState();
+  const sharedInvoiceFile = useAppSelector(selectSharedInvoice);
+  const dispatch = useAppDispatch();
+  const showToast = useShowToast();
+  const [tree, setTree] = useState<MessageTree>(() => createTree(greetingFor(Boolean(sharedInvoiceFile))));
+  // The thread whose messages are on screen; differs from activeThreadId only while a restored session's thread is opened.
+  const shownThreadIdRef = useRef<string | null>(null);
+  // The thread being opened for a restored session, so it isn't opened twice (undefined when none).
+  const openingThreadIdRef = useRef<string | null | undefined>(undefined);
+  const [showThreads, setShowThreads] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [ragFile, setRagFile] = useState<File | null>(null);
+  const [openSource, setOpenSource] = useState<{ source: ChatSource; index: number } | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  // Streamed text is buffered and applied once per animation frame, so a
+  // fast stream doesn't re-render the whole conversation for every token.
+  const pendingTextRef = useRef('');
+  const flushFrameRef = useRef<number | null>(null);
+  // The assistant node the current answer is streaming into.
+  const replyIdRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    requestRef.current?.abort();
+    if (flushFrameRef.current !== null) cancelAnimationFrame(flushFrameRef.current);
+  }, []);
+
+  // Deliver feedback that was given while offline.
+  useEffect(() => {
+    if (!isBackendConfigured) return;
+    const flush = () => {
+      flushFeedbackQueue()
+        .then(delivered => delivered > 0 && showToast(`Sent ${delivered} piece${delivered === 1 ? '' : 's'} of feedback saved while offline.`, 'success'))
+        .catch(console.error);
+    };
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+    // Only on mount; the toast callback doesn't need to be current.
+  }, []);
 
-  // Use shared invoice file if available, otherwise use manually uploaded file
-  const activeFile = sharedInvoiceFile || ragFile;
+  const { documents, addFiles, removeDocument, replaceUploads, toggleScope, searchDocuments } = useDocumentLibrary(sharedInvoiceFile);
+  const { threads, loaded: threadsLoaded, createThread, importThread, updateThread, renameThread, deleteThread, saveDocument, loadDocuments } =
+    useThreads(message => showToast(message, 'error'));
+
+  const setActiveThreadId = (id: string | null) => {
+    shownThreadIdRef.current = id;
+    dispatch({ type: 'activeThreadChanged', id });
+  };
+  const setInputValue = (draft: string) => dispatch({ type: 'draftChanged', draft });
+  const { reviewRedactions, pendingReview } = useRedactionReview(alwaysRedact);
+  const scopedDocuments = documents.filter(doc => doc.inScope && doc.status !== 'failed');
+  const hasDocuments = documents.length > 0;
+  const path = activePath(tree);
+  // Uploads already written to IndexedDB; each is stored once.
+  const savedDocumentIdsRef = useRef(new Set<string>());
 
   useEffect(() => {
     if (sharedInvoiceFile) {
-      setMessages(prev => {
-        if (prev.length === 1 && prev[0].role === 'assistant' && prev[0].content.includes('Upload a document')) {
-          return [{ role: 'assistant', content: 'Hello! I\'m ready to answer questions about your TFL invoice. What would you like to know?' }];
-        }
-        return prev;
+      setTree(prev => {
+        const onlyGreeting = Object.keys(prev.nodes).length === 1 && prev.nodes[prev.rootId].message.content === UPLOAD_GREETING;
+        return onlyGreeting ? createTree(greetingFor(true)) : prev;
       });
-    } else if (!sharedInvoiceFile && !ragFile) {
-      // Reset to initial message if both files are removed
-      setMessages([{ role: 'assistant', content: 'Hello! Upload a document and ask me anything about it.' }]);
     }
-  }, [sharedInvoiceFile, ragFile]);
+  }, [sharedInvoiceFile]);
+
+  // Save the active thread whenever an answer settles or its documents change.
+  // The shared invoice isn't stored: it belongs to the Transport Calculator.
+  useEffect(() => {
+    if (!activeThreadId || activeThreadId !== shownThreadIdRef.current || path.some(node => node.message.status === 'streaming')) return;
+    const uploads = documents.filter(doc => doc.origin === 'upload' && doc.status === 'indexed');
+    for (const doc of uploads) {
+      if (savedDocumentIdsRef.current.has(doc.id)) continue;
+      savedDocumentIdsRef.current.add(doc.id);
+      saveDocument({ id: doc.id, file: doc.file, text: doc.text ?? '' });
+    }
+    updateThread(activeThreadId, { tree, documents: uploads.map(doc => ({ id: doc.id, name: doc.file.name })) });
+  }, [activeThreadId, tree, documents, saveDocument, updateThread]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading]);
+  }, [tree, isLoading]);
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputValue.trim() || isLoading) return;
-    if (!activeFile) {
-        showToast('Please upload a document to chat with.', 'error');
-        return;
+  const updateReply = (update: (message: ChatMessage) => ChatMessage) => {
+    const replyId = replyIdRef.current;
+    if (replyId) setTree(prev => updateMessage(prev, replyId, update));
+  };
+
+  const flushPendingText = () => {
+    if (flushFrameRef.current !== null) {
+      cancelAnimationFrame(flushFrameRef.current);
+      flushFrameRef.current = null;
     }
+    const text = pendingTextRef.current;
+    if (!text) return;
+    pendingTextRef.current = '';
+    updateReply(message => ({ ...message, content: message.content + text }));
+  };
 
-    const userMessage: ChatMessage = { role: 'user', content: inputValue };
-    setMessages(prev => [...prev, userMessage]);
-    setInputValue('');
+  const queueToken = (text: string) => {
+    pendingTextRef.current += text;
+    if (flushFrameRef.current === null) {
+      flushFrameRef.current = requestAnimationFrame(() => {
+        flushFrameRef.current = null;
+        flushPendingText();
+      });
+    }
+  };
+
+  const canAsk = () => {
+    if (isLoading) return false;
+    if (scopedDocuments.length === 0) {
+        showToast(hasDocuments ? 'Select at least one document to ask about.' : 'Please upload a document to chat with.', 'error');
+        return false;
+    }
+    // Documents are redacted from their text, so it has to be read before anything is sent.
+    const reading = scopedDocuments.filter(doc => doc.status === 'parsing');
+    if (isBackendConfigured && reading.length > 0) {
+      showToast(`Wait for ${reading.map(doc => doc.file.name).join(', ')} to finish reading.`, 'error');
+      return false;
+    }
+    return true;
+  };
+
+  /** How each scoped document may be sent, as reviewed by the user; null if they cancelled. */
+  const reviewOutgoingDocuments = (): Promise<RedactionDecisions | null> => {
+    if (!isBackendConfigured) return Promise.resolve(new Map());
+    return reviewRedactions(scopedDocuments.map(doc => ({ id: doc.id, file: doc.file, text: doc.text ?? '', error: doc.error })));
+  };
+
+  /** Adds an assistant reply under `questionId` and streams the answer into it. */
+  const requestAnswer = async (questionId: string, question: string, history: ChatHistoryEntry[], redactions: RedactionDecisions) => {
+    const replyId = crypto.randomUUID();
+    setTree(prev => appendMessage(prev, questionId, replyId, { role: 'assistant', content: '', status: 'streaming' }));
+    replyIdRef.current = replyId;
     setIsLoading(true);
 
-    // TODO: Connect to LangGraph RAG endpoint
+    const controller = new AbortController();
+    requestRef.current = controller;
+    pendingTextRef.current = '';
+
+    const answerFromPassages = (passages: RetrievedPassage[]) => updateReply(message => ({
+      ...message,
+      content: formatRetrievalAnswer(passages),
+      sources: passages.map(passageToSource),
+      status: 'complete',
+      retrievalOnly: true,
+    }));
+
+    let passages: RetrievedPassage[] = [];
+    let receivedText = false;
     try {
-        const formData = new FormData();
-        formData.append('file', activeFile);
-        formData.append('message', userMessage.content);
-        
-        console.log("Sending chat message:", { message: userMessage.content, file: activeFile.name });
-
-      // Simulate API call and streaming response
-      await new Promise(resolve => setTimeout(resolve, 500));
-      const fullResponse = "Based on your document, the total spend for the first week of November was **£34.50**. The most frequent journey was from *Waterloo to Canary Wharf*. \n\nHere are some other key points:\n* There were 5 peak-hour journeys.\n* 2 journeys were made on the weekend.\n* The average cost per journey was £3.45.";
-      
-      setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
-
-      for (let i = 0; i < fullResponse.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 15));
-        setMessages(prev => {
-          const lastMsg = prev[prev.length - 1];
-          const newMessages = [...prev.slice(0, -1)];
-          newMessages.push({ ...lastMsg, content: fullResponse.substring(0, i + 1) });
-          return newMessages;
-        });
+      passages = await searchDocuments(question, scopedDocuments.map(doc => doc.id));
+      if (controller.signal.aborted) throw new ApiError('aborted', 'Request was cancelled.');
+      if (!isBackendConfigured) {
+        answerFromPassages(passages);
+        return;
       }
-
+      // Only what the user agreed to leaves the browser: redacted files and passages.
+      const files = scopedDocuments.map(doc => outgoingFile({ id: doc.id, file: doc.file, text: doc.text ?? '' }, redactions.get(doc.id) ?? null));
+      const context = passages.map(passage => ({ ...passage, text: redactText(passage.text, redactions.get(passage.documentId) ?? []) }));
+      // Earlier answers may quote the documents, so they are redacted the same way.
+      const hidden = [...redactions.values()].flatMap(decision => decision ?? []);
+      const redactedHistory = history.map(entry => ({ ...entry, content: redactText(entry.content, hidden) }));
+      await streamChatMessage(
+        { message: question, files, context, history: redactedHistory },
+        {
+          signal: controller.signal,
+          onToken: text => {
+            receivedText = true;
+            queueToken(text);
+          },
+          onSources: sources => updateReply(message => ({ ...message, sources })),
+          onTrace: traceId => updateReply(message => ({ ...message, traceId })),
+          onActions: actions => updateReply(message => ({ ...message, actions: [...(message.actions ?? []), ...actions] })),
+        },
+      );
+      flushPendingText();
+      updateReply(message => ({ ...message, status: 'complete' }));
     } catch (error) {
+      flushPendingText();
+      if (isAbortError(error)) {
+        updateReply(message => ({ ...message, status: 'stopped' }));
+        return;
+      }
+      // With the backend down, the local index can still point at the right passages.
+      if (error instanceof ApiError && error.kind === 'network' && !receivedText) {
+        answerFromPassages(passages);
+        showToast('Could not reach the assistant, so showing matching passages instead.', 'error');
+        return;
+      }
       console.error(error);
-      showToast('Failed to get response from assistant.', 'error');
-      setMessages(prev => [...prev, { role: 'assistant', content: 'Sorry, I ran into an error. Please try again.' }]);
+      const description = describeApiError(error, 'Failed to get response from assistant.');
+      showToast(description, 'error');
+      updateReply(message => ({ ...message, status: 'error', error: description }));
     } finally {
-      setIsLoading(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        replyIdRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
+
+  const startThreadIfNeeded = (question: string) => {
+    if (!activeThreadId) setActiveThreadId(createThread(question, tree).id);
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = inputValue.trim();
+    if (!question || !canAsk()) return;
+    const redactions = await reviewOutgoingDocuments();
+    if (!redactions) return;
+
+    const parentId = path[path.length - 1].id;
+    const questionId = crypto.randomUUID();
+    startThreadIfNeeded(question);
+    setTree(prev => appendMessage(prev, parentId, questionId, { role: 'user', content: question }));
+    setInputValue('');
+    await requestAnswer(questionId, question, historyTo(tree, parentId), redactions);
+  };
+
+  /** Asks an edited question as a new branch beside the original. */
+  const handleEditMessage = async (nodeId: string, question: string) => {
+    const parentId = tree.nodes[nodeId]?.parentId;
+    if (!parentId || !canAsk()) return;
+    const redactions = await reviewOutgoingDocuments();
+    if (!redactions) return;
+    const questionId = crypto.randomUUID();
+    startThreadIfNeeded(question);
+    setTree(prev => appendMessage(prev, parentId, questionId, { role: 'user', content: question }));
+    await requestAnswer(questionId, question, historyTo(tree, parentId), redactions);
+  };
+
+  /** Asks the same question again, keeping the previous answer as a branch. */
+  const handleRegenerate = async (replyId: string) => {
+    const question = tree.nodes[tree.nodes[replyId]?.parentId ?? ''];
+    if (!question || question.message.role !== 'user' || !question.parentId || !canAsk()) return;
+    const redactions = await reviewOutgoingDocuments();
+    if (!redactions) return;
+    await requestAnswer(question.id, question.message.content, historyTo(tree, question.parentId), redactions);
+  };
+
+  const updateAction = (nodeId: string, actionId: string, changes: Partial<ChatAction>) => {
+    setTree(prev => updateMessage(prev, nodeId, message => ({
+      ...message,
+      actions: message.actions?.map(action => (action.id === actionId ? { ...action, ...changes } : action)),
+    })));
+  };
+
+  /** Runs a confirmed action card against the Transport Calculator. */
+  const handleApplyAction = async (nodeId: string, chatAction: ChatAction) => {
+    if (chatAction.status !== 'pending' || !chatAction.action) return;
+    if (!onCalculatorAction) {
+      updateAction(nodeId, chatAction.id, { status: 'failed', result: 'The Transport Calculator is not available.' });
+      return;
+    }
+    try {
+      const result = await onCalculatorAction(chatAction.action);
+      updateAction(nodeId, chatAction.id, { status: result.ok ? 'applied' : 'failed', result: result.message });
+    } catch (error) {
+      console.error(error);
+      updateAction(nodeId, chatAction.id, { status: 'failed', result: 'Something went wrong while applying this action.' });
+    }
+  };
+
+  const handleFeedback = async (nodeId: string, feedback: Omit<AnswerFeedback, 'delivery'>) => {
+    try {
+      const delivery = await submitFeedback({
+        id: crypto.randomUUID(),
+        traceId: tree.nodes[nodeId]?.message.traceId,
+        messageId: nodeId,
+        ...feedback,
+        createdAt: new Date().toISOString(),
+      });
+      setTree(prev => updateMessage(prev, nodeId, message => ({ ...message, feedback: { ...feedback, delivery } })));
+    } catch (error) {
+      console.error(error);
+      showToast(describeApiError(error, 'Could not send your feedback.'), 'error');
+    }
+  };
+
+  const handleSwitchBranch = (nodeId: string, offset: number) => {
+    if (!isLoading) setTree(prev => selectSibling(prev, nodeId, offset));
+  };
+
+  const handleStop = () => {
+    requestRef.current?.abort();
+  };
   
+  const handleNewThread = () => {
+    if (isLoading) return;
+    setActiveThreadId(null);
+    setTree(createTree(greetingFor(Boolean(sharedInvoiceFile))));
+    replaceUploads([]);
+    setShowThreads(false);
+  };
+
+  /** Puts a saved thread on screen with its documents, or a new thread for null. */
+  const showThread = async (thread: ChatThread | null) => {
+    const stored = thread ? await loadDocuments(thread.documents.map(document => document.id)) : [];
+    stored.forEach(document => savedDocumentIdsRef.current.add(document.id));
+    // Set together so the save effect never pairs this thread with the previous thread's documents.
+    replaceUploads(stored);
+    setTree(thread ? thread.tree : createTree(greetingFor(Boolean(sharedInvoiceFile))));
+    setActiveThreadId(thread?.id ?? null);
+    if (thread && stored.length < thread.documents.length) {
+      showToast('Some of this thread\'s documents are no longer stored. Upload them again to ask about them.', 'error');
+    }
+  };
+
+  const handleOpenThread = async (thread: ChatThread) => {
+    if (isLoading || thread.id === activeThreadId) {
+      setShowThreads(false);
+      return;
+    }
+    await showThread(thread);
+    setShowThreads(false);
+  };
+
+  // A restored session names the thread to reopen; it's shown once the saved threads have loaded.
+  useEffect(() => {
+    if (activeThreadId === shownThreadIdRef.current || !threadsLoaded || openingThreadIdRef.current === activeThreadId) return;
+    openingThreadIdRef.current = activeThreadId;
+    showThread(threads.find(thread => thread.id === activeThreadId) ?? null)
+      .catch(console.error)
+      .finally(() => {
+        openingThreadIdRef.current = undefined;
+      });
+    // showThread is recreated every render; what matters is which thread is wanted.
+  }, [activeThreadId, threadsLoaded, threads]);
+
+  const handleDeleteThread = (id: string) => {
+    deleteThread(id);
+    if (id === activeThreadId) {
+      setActiveThreadId(null);
+      setTree(createTree(greetingFor(Boolean(sharedInvoiceFile))));
+      replaceUploads([]);
+    }
+    showToast('Thread deleted.', 'success');
+  };
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId) ?? null;
+  const canExport = path.some(node => node.message.role === 'user');
+
+  const handleExport = (format: 'md' | 'json') => {
+    const firstQuestion = path.find(node => node.message.role === 'user')?.message.content ?? '';
+    const title = activeThread?.title ?? autoTitle(firstQuestion);
+    const documentList = documents
+      .filter(doc => doc.status === 'indexed')
+      .map(doc => ({ id: doc.id, name: doc.file.name }));
+    if (format === 'md') {
+      downloadFile(transcriptToMarkdown(title, tree, documentList.map(doc => doc.name)), transcriptFileName(title, 'md'), 'text/markdown;charset=utf-8');
+    } else {
+      const createdAt = activeThread?.createdAt ?? new Date().toISOString();
+      downloadFile(transcriptToJson({ title, createdAt, tree, documents: documentList }), transcriptFileName(title, 'json'), 'application/json');
+    }
+    showToast('Transcript exported.', 'success');
+  };
+
+  const handleImportTranscript = async (file: File) => {
+    if (isLoading) return;
+    try {
+      const imported = parseTranscript(await file.text());
+      const thread = importThread(imported);
+      replaceUploads([]);
+      setTree(thread.tree);
+      setActiveThreadId(thread.id);
+      setShowThreads(false);
+      const names = imported.documents.map(document => document.name);
+      showToast(
+        names.length > 0
+          ? `Imported "${thread.title}". Upload ${names.join(', ')} again to ask more about ${names.length === 1 ? 'it' : 'them'}.`
+          : `Imported "${thread.title}".`,
+        'success',
+      );
+    } catch (error) {
+      if (!(error instanceof TranscriptError)) console.error(error);
+      showToast(error instanceof TranscriptError ? error.message : 'The transcript could not be read.', 'error');
+    }
+  };
+
   const handleFileUploaded = (file: File) => {
-    setRagFile(file);
-    showToast(`${file.name} is ready for chat.`, 'success');
+    if (documents.some(doc => doc.file.name === file.name && doc.file.size === file.size)) {
+      showToast(`${file.name} is already in the library.`, 'error');
+      return;
+    }
+    addFiles([file]);
   };
-  
-  const handleFileRemoved = () => {
-    setRagFile(null);
-    showToast(`File removed.`, 'success');
+
+  const handleFileRemoved = (id: string) => {
+    const doc = documents.find(candidate => candidate.id === id);
+    removeDocument(id);
+    if (doc) showToast(`${doc.file.name} removed.`, 'success');
   };
 
+  const sourceFile = openSource
+    ? documents.find(doc => doc.file.name === openSource.source.documentName)?.file ?? null
+    : null;
+
   return (
-    <div className="bg-white p-6 rounded-xl shadow-lg h-full flex flex-col overflow-hidden">
+    <div className="relative bg-white p-6 rounded-xl shadow-lg h-full flex flex-col overflow-hidden">
+      {showThreads && (
+        <ThreadSidebar
+          threads={threads}
+          activeThreadId={activeThreadId}
+          disabled={isLoading}
+          onSelect={handleOpenThread}
+          onNew={handleNewThread}
+          onRename={renameThread}
+          onDelete={handleDeleteThread}
+          onImport={handleImportTranscript}
+          onClose={() => setShowThreads(false)}
+        />
+      )}
+      {pendingReview && (
+        <RedactionReview
+          documents={pendingReview.documents}
+          alwaysRedact={alwaysRedact}
+          onAlwaysRedactChange={value => dispatch({ type: 'alwaysRedactChanged', value })}
+          onConfirm={pendingReview.resolve}
+          onCancel={() => pendingReview.resolve(null)}
+        />
+      )}
+      {openSource && (
+        <SourceViewer
+          source={openSource.source}
+          index={openSource.index}
+          file={sourceFile}
+          onClose={() => setOpenSource(null)}
+        />
+      )}
       <div className="flex items-center gap-2 mb-4 flex-shrink-0">
         <h2 className="text-2xl font-bold text-gray-800">Document Assistant</h2>
         <div className="relative group">
             <InfoIcon className="h-5 w-5 text-gray-400 cursor-pointer" />
             <div className="absolute bottom-full mb-2 w-64 bg-gray-800 text-white text-xs rounded py-2 px-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-10">
-                This is a RAG system. Upload a document to start asking questions about its content.
+                This is a RAG system. Upload one or more documents and ask questions across the ones in scope.
                 <svg className="absolute text-gray-800 h-2 w-full left-0 top-full" x="0px" y="0px" viewBox="0 0 255 255"><polygon className="fill-current" points="0,0 127.5,127.5 255,0"/></svg>
             </div>
         </div>
+        <details className="relative ml-auto">
+          <summary
+            className={`list-none text-sm font-semibold ${canExport ? 'cursor-pointer text-indigo-600 hover:text-indigo-800' : 'pointer-events-none text-gray-300'}`}
+            aria-disabled={!canExport}
+          >
+            Export
+          </summary>
+          <div className="absolute right-0 mt-1 z-10 w-44 rounded-lg border border-gray-200 bg-white shadow-lg py-1 text-sm">
+            <button
+              onClick={e => {
+                e.currentTarget.closest('details')?.removeAttribute('open');
+                handleExport('md');
+              }}
+              className="block w-full text-left px-3 py-1.5 hover:bg-gray-50"
+            >
+              Markdown (readable)
+            </button>
+            <button
+              onClick={e => {
+                e.currentTarget.closest('details')?.removeAttribute('open');
+                handleExport('json');
+              }}
+              className="block w-full text-left px-3 py-1.5 hover:bg-gray-50"
+            >
+              JSON (re-importable)
+            </button>
+          </div>
+        </details>
+        <button
+          onClick={() => setShowThreads(true)}
+          className="text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+        >
+          Threads{threads.length > 0 && ` (${threads.length})`}
+        </button>
       </div>
-      
-      {!sharedInvoiceFile && (
-        <div className="mb-4 flex-shrink-0">
-            <FileUpload
-              id="rag-file"
-              title="Upload Document for Chat"
-              description="Upload a document to provide context for the assistant."
-              uploadedFile={ragFile}
-              onFileUpload={handleFileUploaded}
-              onFileRemove={handleFileRemoved}
-              acceptedTypes={['.csv', '.pdf', '.txt', '.docx']}
-            />
-        </div>
-      )}
-      
-      {sharedInvoiceFile && (
-        <div className="mb-4 flex-shrink-0 p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
-          <p className="text-sm text-indigo-800 font-medium">
-            💬 Chatting with TFL invoice: <span className="font-semibold">{sharedInvoiceFile.name}</span>
-          </p>
-          <p className="text-xs text-indigo-600 mt-1">
-            This file was uploaded in the Transport Calculator. Toggle it off there to upload a different document here.
-          </p>
-        </div>
+
+      {!isBackendConfigured && (
+        <p className="mb-4 flex-shrink-0 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          No assistant server is configured, so questions are answered with the matching passages from your documents.
+        </p>
       )}
 
+      <div className="mb-4 flex-shrink-0">
+        <DocumentLibrary
+          documents={documents}
+          onAddFile={handleFileUploaded}
+          onRemove={handleFileRemoved}
+          onToggleScope={toggleScope}
+          onError={message => showToast(message, 'error')}
+        />
+      </div>
+
       <div className="flex flex-col flex-1 min-h-0 overflow-hidden">
         <div className="flex flex-col flex-1 min-h-0 rounded-2xl bg-gray-100 p-4 overflow-hidden">
           <div className="flex flex-col flex-1 min-h-0 overflow-y-auto mb-4">
             <div className="grid grid-cols-12 gap-y-2">
-              {messages.map((msg, index) =>
-                msg.role === 'user' ? (
-                  <UserMessage key={index} content={msg.content} />
+              {path.map(node => {
+                const branch: BranchControls = {
+                  ...branchPosition(tree, node.id),
+                  disabled: isLoading,
+                  onSwitch: offset => handleSwitchBranch(node.id, offset),
+                };
+                return node.message.role === 'user' ? (
+                  <UserMessage
+                    key={node.id}
+                    content={node.message.content}
+                    branch={branch}
+                    onEdit={isLoading ? undefined : content => handleEditMessage(node.id, content)}
+                  />
                 ) : (
-                  <AssistantMessage key={index} content={msg.content} />
-                )
-              )}
-              {isLoading && (
-                 <div className="col-start-1 col-end-12 p-3 rounded-lg">
-                    <div className="flex flex-row items-center">
-                        <div className="flex items-center justify-center h-10 w-10 rounded-full bg-indigo-500 flex-shrink-0 text-white font-bold">A</div>
-                        <div className="relative ml-3 text-sm bg-white py-2 px-4 shadow rounded-xl">
-                           <div className="flex items-center space-x-1">
-                                <span className="text-gray-500">Thinking</span>
-                                <div className="bg-gray-400 w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-                                <div className="bg-gray-400 w-1.5 h-1.5 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-                                <div className="bg-gray-400 w-1.5 h-1.5 rounded-full animate-bounce"></div>
-                           </div>
-                        </div>
-                    </div>
-                </div>
-              )}
+                  <AssistantMessage
+                    key={node.id}
+                    message={node.message}
+                    branch={branch}
+                    onOpenSource={(source, sourceIndex) => setOpenSource({ source, index: sourceIndex })}
+                    onRegenerate={isLoading || !node.parentId ? undefined : () => handleRegenerate(node.id)}
+                    onApplyAction={action => handleApplyAction(node.id, action)}
+                    onDismissAction={action => updateAction(node.id, action.id, { status: 'dismissed' })}
+                    onFeedback={
+                      isBackendConfigured && node.parentId && node.message.content && !node.message.retrievalOnly && node.message.status !== 'streaming'
+                        ? feedback => handleFeedback(node.id, feedback)
+                        : undefined
+                    }
+                  />
+                );
+              })}
                <div ref={chatEndRef} />
             </div>
           </div>
@@ -201,21 +766,36 @@ export const Chat: React.FC<{
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 className="flex w-full border rounded-xl focus:outline-none focus:border-indigo-300 pl-4 h-10"
-                placeholder={activeFile ? "Ask about your document..." : "Upload a document first"}
-                disabled={!activeFile}
+                placeholder={
+                  scopedDocuments.length > 1 ? "Ask across your documents..."
+                    : scopedDocuments.length === 1 ? "Ask about your document..."
+                    : hasDocuments ? "Select a document first" : "Upload a document first"
+                }
+                disabled={scopedDocuments.length === 0}
               />
             </div>
             <div className="ml-4">
-              <button
-                type="submit"
-                disabled={isLoading || !activeFile}
-                className="flex items-center justify-center bg-indigo-500 hover:bg-indigo-600 rounded-xl text-white px-4 py-2 flex-shrink-0 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
-              >
-                <span>Send</span>
-                <span className="ml-2">
-                  <SendIcon className="w-4 h-4 transform rotate-45 -mt-px" />
-                </span>
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="flex items-center justify-center bg-gray-700 hover:bg-gray-800 rounded-xl text-white px-4 py-2 flex-shrink-0 transition-colors"
+                >
+                  <span className="inline-block w-3 h-3 bg-white rounded-sm mr-2" />
+                  <span>Stop</span>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={scopedDocuments.length === 0}
+                  className="flex items-center justify-center bg-indigo-500 hover:bg-indigo-600 rounded-xl text-white px-4 py-2 flex-shrink-0 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  <span>Send</span>
+                  <span className="ml-2">
+                    <SendIcon className="w-4 h-4 transform rotate-45 -mt-px" />
+                  </span>
+                </button>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { buildClaim, downloadClaimCsv, openClaimReport } from '../services/claimExport';
+import type { FareBreakdown, FareOptions } from '../types';
+
+interface ClaimExportPanelProps {
+  dates: string[];
+  breakdown: FareBreakdown | null;
+  totalCost: number;
+  invoiceName: string;
+  fareOptions: FareOptions;
+  claimant: string;
+  onClaimantChange: (claimant: string) => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+export const ClaimExportPanel: React.FC<ClaimExportPanelProps> = ({
+  dates,
+  breakdown,
+  totalCost,
+  invoiceName,
+  fareOptions,
+  claimant,
+  onClaimantChange,
+  showToast,
+}) => {
+  const makeClaim = () => buildClaim({ claimant: claimant.trim(), dates, breakdown, totalCost, invoiceName, fareOptions });
+
+  const handleDownloadCsv = () => {
+    downloadClaimCsv(makeClaim());
+    showToast('Claim CSV downloaded.', 'success');
+  };
+
+  const handlePrint = () => {
+    if (!openClaimReport(makeClaim())) {
+      showToast('Pop-up blocked, so the report was downloaded instead.', 'error');
+    }
+  };
+
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg flex-shrink-0">
+      <label htmlFor="claimant-name" className="block text-sm font-medium text-gray-700">Claimant name</label>
+      <div className="mt-1 flex flex-col sm:flex-row gap-2">
+        <input
+          id="claimant-name"
+          type="text"
+          value={claimant}
+          onChange={(e) => onClaimantChange(e.target.value)}
+          placeholder="Your name as it appears in the expenses system"
+          className="flex-1 rounded-lg border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:border-indigo-300"
+        />
+        <button
+          type="button"
+          onClick={handleDownloadCsv}
+          className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-100"
+        >
+          Download CSV
+        </button>
+        <button
+          type="button"
+          onClick={handlePrint}
+          className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-100"
+        >
+          Print / PDF
+        </button>
+      </div>
+    </div>
+  );
+};
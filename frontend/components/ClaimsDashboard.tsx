@@ -0,0 +1,216 @@
+import React, { useMemo } from 'react';
+import {
+  CLAIM_STATUS_LABELS,
+  CLAIM_STATUSES,
+  monthlyTotals,
+  recentMonths,
+  sharedDays,
+  totalOf,
+  unclaimedMonths,
+  withStatus,
+  yearlyTotals,
+} from '../services/claimHistory';
+import { useAppDispatch, useAppState } from '../store/AppStoreProvider';
+import { fromISODate } from '../utils/dates';
+import type { ClaimRecord, ClaimStatus } from '../types';
+
+// Months shown in the spend trend chart.
+const TREND_MONTHS = 12;
+
+const STATUS_BAR_CLASSES: Record<ClaimStatus, string> = {
+  calculated: 'bg-indigo-300',
+  submitted: 'bg-amber-400',
+  reimbursed: 'bg-green-500',
+};
+
+const STATUS_BADGE_CLASSES: Record<ClaimStatus, string> = {
+  calculated: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  submitted: 'bg-amber-50 text-amber-800 border-amber-200',
+  reimbursed: 'bg-green-50 text-green-700 border-green-200',
+};
+
+const money = (amount: number) => `£${amount.toFixed(2)}`;
+
+const formatMonth = (month: string) =>
+  fromISODate(`${month}-01`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+
+const formatPeriod = (claim: ClaimRecord) => {
+  const start = fromISODate(claim.periodStart);
+  const end = fromISODate(claim.periodEnd);
+  const endText = end.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  if (claim.periodStart === claim.periodEnd) return endText;
+  const sameYear = start.getFullYear() === end.getFullYear();
+  return `${start.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: sameYear ? undefined : 'numeric' })} – ${endText}`;
+};
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/** Past claims from the Transport Calculator, with what's been paid back and what hasn't. */
+export const ClaimsDashboard: React.FC = () => {
+  const { claims } = useAppState();
+  const dispatch = useAppDispatch();
+
+  const sorted = useMemo(
+    () => [...claims].sort((a, b) => b.periodStart.localeCompare(a.periodStart) || b.calculatedAt.localeCompare(a.calculatedAt)),
+    [claims],
+  );
+  const trend = useMemo(() => monthlyTotals(claims, recentMonths(TREND_MONTHS)), [claims]);
+  const years = useMemo(() => yearlyTotals(claims), [claims]);
+  const missed = useMemo(() => unclaimedMonths(claims), [claims]);
+
+  const outstanding = claims.filter(claim => claim.status === 'submitted');
+  const unsubmitted = claims.filter(claim => claim.status === 'calculated');
+  const thisYear = years.find(year => year.year === String(new Date().getFullYear()));
+  const maxMonth = Math.max(0, ...trend.map(month => month.total));
+
+  const handleStatusChange = (claim: ClaimRecord, status: ClaimStatus) => {
+    dispatch({ type: 'claimUpdated', claim: withStatus(claim, status) });
+  };
+
+  const handleDelete = (claim: ClaimRecord) => {
+    if (window.confirm(`Delete the claim for ${formatPeriod(claim)} (${money(claim.totalCost)})? It will be removed from this device.`)) {
+      dispatch({ type: 'claimDeleted', id: claim.id });
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg h-full flex flex-col overflow-hidden">
+      <h2 className="text-2xl font-bold text-gray-800 flex-shrink-0 mb-4">Claims History</h2>
+
+      {claims.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No claims yet. Each cost you calculate in the Transport Calculator is kept here, so you can track it until it's paid back.
+        </p>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-6 pr-1">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="p-3 rounded-lg border border-gray-200">
+              <p className="text-xs font-medium text-gray-500">Claimed for {new Date().getFullYear()}</p>
+              <p className="text-2xl font-bold text-gray-800">{money(thisYear?.total ?? 0)}</p>
+            </div>
+            <div className="p-3 rounded-lg border border-amber-200 bg-amber-50">
+              <p className="text-xs font-medium text-amber-800">Awaiting reimbursement</p>
+              <p className="text-2xl font-bold text-amber-900">{money(totalOf(outstanding))}</p>
+              <p className="text-xs text-amber-800">{outstanding.length} submitted claim{outstanding.length === 1 ? '' : 's'}</p>
+            </div>
+            <div className="p-3 rounded-lg border border-indigo-200 bg-indigo-50">
+              <p className="text-xs font-medium text-indigo-800">Not yet submitted</p>
+              <p className="text-2xl font-bold text-indigo-900">{money(totalOf(unsubmitted))}</p>
+              <p className="text-xs text-indigo-800">{unsubmitted.length} claim{unsubmitted.length === 1 ? '' : 's'}</p>
+            </div>
+          </div>
+
+          {missed.length > 0 && (
+            <p className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <span className="font-semibold">No claim for {missed.length === 1 ? 'this month' : 'these months'}:</span>{' '}
+              {missed.map(month => formatMonth(month)).join(', ')}. If you travelled to work then, you may have forgotten to claim.
+            </p>
+          )}
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Monthly spend</h3>
+            <div className="flex items-end gap-1 h-40 border-b border-gray-200" role="img" aria-label={`Spend for the last ${TREND_MONTHS} months`}>
+              {trend.map(month => (
+                <div
+                  key={month.month}
+                  className="flex-1 h-full flex flex-col justify-end"
+                  title={`${formatMonth(month.month)}: ${money(month.total)}`}
+                >
+                  {[...CLAIM_STATUSES].reverse().map(status => month.byStatus[status] > 0 && (
+                    <div
+                      key={status}
+                      className={STATUS_BAR_CLASSES[status]}
+                      style={{ height: `${(month.byStatus[status] / maxMonth) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {trend.map(month => (
+                <span key={month.month} className="flex-1 text-center text-[10px] text-gray-500">
+                  {fromISODate(`${month.month}-01`).toLocaleDateString('en-GB', { month: 'short' })}
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+              {CLAIM_STATUSES.map(status => (
+                <span key={status} className="inline-flex items-center gap-1">
+                  <span className={`h-2.5 w-2.5 rounded-sm ${STATUS_BAR_CLASSES[status]}`} />
+                  {CLAIM_STATUS_LABELS[status]}
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">By year</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="font-medium py-1">Year</th>
+                  <th className="font-medium py-1 text-right">Claimed</th>
+                  <th className="font-medium py-1 text-right">Reimbursed</th>
+                  <th className="font-medium py-1 text-right">Awaiting</th>
+                </tr>
+              </thead>
+              <tbody>
+                {years.map(year => (
+                  <tr key={year.year} className="border-t border-gray-100">
+                    <td className="py-1 font-medium text-gray-800">{year.year}</td>
+                    <td className="py-1 text-right">{money(year.total)}</td>
+                    <td className="py-1 text-right text-green-700">{money(year.reimbursed)}</td>
+                    <td className="py-1 text-right text-amber-800">{money(year.outstanding)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Claims</h3>
+            <ul className="space-y-2">
+              {sorted.map(claim => {
+                const shared = sharedDays(claim, claims);
+                return (
+                  <li key={claim.id} className="p-3 rounded-lg border border-gray-200 text-sm">
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <p className="font-semibold text-gray-800">{formatPeriod(claim)}</p>
+                      <p className="text-gray-500">
+                        {claim.dates.length} day{claim.dates.length === 1 ? '' : 's'} · {claim.invoiceName}
+                      </p>
+                      <p className="ml-auto font-bold text-gray-800">{money(claim.totalCost)}</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 mt-2">
+                      <select
+                        value={claim.status}
+                        onChange={(e) => handleStatusChange(claim, e.target.value as ClaimStatus)}
+                        aria-label={`Status of the claim for ${formatPeriod(claim)}`}
+                        className={`rounded-full border py-0.5 px-2 text-xs font-medium focus:outline-none ${STATUS_BADGE_CLASSES[claim.status]}`}
+                      >
+                        {CLAIM_STATUSES.map(status => <option key={status} value={status}>{CLAIM_STATUS_LABELS[status]}</option>)}
+                      </select>
+                      <span className="text-xs text-gray-500">
+                        Calculated {formatDay(claim.calculatedAt)}
+                        {claim.submittedAt && ` · submitted ${formatDay(claim.submittedAt)}`}
+                        {claim.reimbursedAt && ` · reimbursed ${formatDay(claim.reimbursedAt)}`}
+                      </span>
+                      <button onClick={() => handleDelete(claim)} className="ml-auto text-xs text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </div>
+                    {shared > 0 && (
+                      <p className="mt-2 text-xs text-amber-800">
+                        {shared} of these days {shared === 1 ? 'is' : 'are'} also in another claim, so {shared === 1 ? 'it is' : 'they are'} counted twice in the totals.
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { ChatDocument, ChatDocumentStatus } from '../types';
+import { FileUpload } from './FileUpload';
+import { CloseIcon, SpinnerIcon } from './icons';
+
+interface DocumentLibraryProps {
+  documents: ChatDocument[];
+  onAddFile: (file: File) => void;
+  onRemove: (id: string) => void;
+  onToggleScope: (id: string) => void;
+  onError: (message: string) => void;
+}
+
+const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+const STATUS_STYLES: Record<ChatDocumentStatus, string> = {
+  parsing: 'bg-gray-100 text-gray-600',
+  indexed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<ChatDocumentStatus, string> = {
+  parsing: 'Parsing',
+  indexed: 'Indexed',
+  failed: 'Failed',
+};
+
+export const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ documents, onAddFile, onRemove, onToggleScope, onError }) => {
+  const inScope = documents.filter(doc => doc.inScope && doc.status !== 'failed').length;
+
+  return (
+    <div className="space-y-3">
+      <FileUpload
+        id="rag-file"
+        title="Documents"
+        description="Add one or more documents, then tick the ones the assistant should use."
+        uploadedFile={null}
+        onFileUpload={onAddFile}
+        onFileRemove={() => {}}
+        acceptedTypes={['.csv', '.pdf', '.txt', '.docx']}
+        maxSizeBytes={MAX_DOCUMENT_BYTES}
+        onError={onError}
+        multiple
+      />
+      {documents.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            {inScope} of {documents.length} document{documents.length === 1 ? '' : 's'} in scope
+          </p>
+          <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200">
+            {documents.map(doc => (
+              <li key={doc.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={doc.inScope && doc.status !== 'failed'}
+                  disabled={doc.status === 'failed'}
+                  onChange={() => onToggleScope(doc.id)}
+                  aria-label={`Use ${doc.file.name} for questions`}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium text-gray-800" title={doc.file.name}>{doc.file.name}</p>
+                  {doc.origin === 'invoice' && (
+                    <p className="text-xs text-indigo-600">Shared from the Transport Calculator. Toggle it off there to remove it.</p>
+                  )}
+                  {doc.error && <p className="text-xs text-red-600">{doc.error}</p>}
+                </div>
+                <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[doc.status]}`}>
+                  {doc.status === 'parsing' && <SpinnerIcon className="h-3 w-3 animate-spin" />}
+                  {STATUS_LABELS[doc.status]}
+                  {doc.status === 'parsing' && doc.progress && ` ${doc.progress.done}/${doc.progress.total} pages`}
+                </span>
+                {doc.origin === 'upload' && (
+                  <button
+                    onClick={() => onRemove(doc.id)}
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                    aria-label={doc.status === 'parsing' ? `Cancel reading ${doc.file.name}` : `Remove ${doc.file.name}`}
+                    title={doc.status === 'parsing' ? 'Cancel' : 'Remove'}
+                  >
+                    <CloseIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
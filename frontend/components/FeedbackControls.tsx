@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { AnswerFeedback, FeedbackCategory, FeedbackRating } from '../types';
+
+interface FeedbackControlsProps {
+  feedback?: AnswerFeedback;
+  onSubmit: (feedback: Omit<AnswerFeedback, 'delivery'>) => Promise<void>;
+}
+
+const CATEGORIES: { value: FeedbackCategory; label: string }[] = [
+  { value: 'wrong-amount', label: 'Wrong amount' },
+  { value: 'hallucinated-journey', label: 'Hallucinated journey' },
+  { value: 'missing-information', label: 'Missed something in the document' },
+  { value: 'wrong-source', label: 'Cited the wrong source' },
+  { value: 'other', label: 'Something else' },
+];
+
+export const FeedbackControls: React.FC<FeedbackControlsProps> = ({ feedback, onSubmit }) => {
+  const [draft, setDraft] = useState<{ rating: FeedbackRating; category: FeedbackCategory | ''; comment: string } | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  if (feedback) {
+    return (
+      <p className="text-xs text-gray-500">
+        {feedback.rating === 'up' ? '👍' : '👎'} Thanks for the feedback
+        {feedback.delivery === 'queued' && ' (it will be sent when you\'re back online)'}
+      </p>
+    );
+  }
+
+  const send = async (rating: FeedbackRating, category?: FeedbackCategory, comment?: string) => {
+    setIsSending(true);
+    try {
+      await onSubmit({ rating, category, comment: comment?.trim() || undefined });
+      setDraft(null);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (draft) {
+    return (
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          send(draft.rating, draft.category || undefined, draft.comment);
+        }}
+        className="mt-1 flex flex-col gap-2 rounded-lg border border-gray-200 bg-gray-50 p-2 text-xs"
+      >
+        {draft.rating === 'down' && (
+          <select
+            value={draft.category}
+            onChange={e => setDraft({ ...draft, category: e.target.value as FeedbackCategory | '' })}
+            aria-label="What was wrong?"
+            className="rounded border border-gray-300 bg-white px-2 py-1 focus:outline-none focus:border-indigo-300"
+          >
+            <option value="">What was wrong? (optional)</option>
+            {CATEGORIES.map(category => <option key={category.value} value={category.value}>{category.label}</option>)}
+          </select>
+        )}
+        <textarea
+          value={draft.comment}
+          onChange={e => setDraft({ ...draft, comment: e.target.value })}
+          placeholder="Add a comment (optional)"
+          rows={2}
+          className="rounded border border-gray-300 px-2 py-1 focus:outline-none focus:border-indigo-300"
+        />
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={() => setDraft(null)} className="text-gray-600 hover:text-gray-800">Cancel</button>
+          <button type="submit" disabled={isSending} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+            Send feedback
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <button
+        type="button"
+        onClick={() => setDraft({ rating: 'up', category: '', comment: '' })}
+        disabled={isSending}
+        aria-label="Good answer"
+        title="Good answer"
+        className="rounded px-1 text-sm grayscale hover:grayscale-0 disabled:opacity-50"
+      >
+        👍
+      </button>
+      <button
+        type="button"
+        onClick={() => setDraft({ rating: 'down', category: '', comment: '' })}
+        disabled={isSending}
+        aria-label="Bad answer"
+        title="Bad answer"
+        className="rounded px-1 text-sm grayscale hover:grayscale-0 disabled:opacity-50"
+      >
+        👎
+      </button>
+    </span>
+  );
+};
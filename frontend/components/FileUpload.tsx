@@ -1,6 +1,7 @@
 
 import React, { useState, useCallback, useRef } from 'react';
-import { UploadIcon, CsvIcon, PdfIcon, FileIcon, CloseIcon } from './icons';
+import { UploadIcon, CsvIcon, PdfIcon, FileIcon, CloseIcon, SpinnerIcon } from './icons';
+import { checkUpload, DEFAULT_MAX_UPLOAD_BYTES, FileIntakeError, formatFileSize } from '../services/fileIntake';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
@@ -10,6 +11,9 @@ interface FileUploadProps {
   title: string;
   description: string;
   id: string;
+  multiple?: boolean; // calls onFileUpload once per accepted file
+  maxSizeBytes?: number;
+  onError?: (message: string) => void; // e.g. a toast, alongside the inline list
 }
 
 const getFileIcon = (fileName: string) => {
@@ -25,19 +29,38 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   acceptedTypes,
   title,
   description,
-  id
+  id,
+  multiple = false,
+  maxSizeBytes = DEFAULT_MAX_UPLOAD_BYTES,
+  onError
 }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (files: FileList | null) => {
-    if (files && files.length > 0) {
-      const file = files[0];
-      if (acceptedTypes.some(type => file.name.endsWith(type))) {
-        onFileUpload(file);
-      } else {
-        alert(`Invalid file type. Please upload one of: ${acceptedTypes.join(', ')}`);
+  // Files are checked by content, so a renamed or extension-less file is
+  // still accepted and a mislabelled one is caught before it's read.
+  const handleFileChange = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const candidates = multiple ? Array.from(files) : [files[0]];
+    const problems = !multiple && files.length > 1 ? [`Only one file can be added here, so ${files[0].name} was used.`] : [];
+    setIsChecking(true);
+    try {
+      for (const file of candidates) {
+        try {
+          onFileUpload(await checkUpload(file, acceptedTypes, maxSizeBytes));
+        } catch (error) {
+          if (!(error instanceof FileIntakeError)) console.error(error);
+          problems.push(error instanceof FileIntakeError ? error.message : `${file.name} could not be read.`);
+        }
       }
+    } finally {
+      setIsChecking(false);
+    }
+    setErrors(problems);
+    if (problems.length > 0) {
+      onError?.(problems.length === 1 ? problems[0] : `${problems.length} files could not be added; see the list below the upload area.`);
     }
   };
 
@@ -63,7 +86,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     e.stopPropagation();
     setIsDragging(false);
     handleFileChange(e.dataTransfer.files);
-  }, [acceptedTypes]);
+  }, [acceptedTypes, multiple, maxSizeBytes, onFileUpload, onError]);
 
   const handleBrowseClick = () => {
     inputRef.current?.click();
@@ -79,7 +102,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             {getFileIcon(uploadedFile.name)}
             <div>
               <p className="font-medium text-gray-800 truncate max-w-[200px]">{uploadedFile.name}</p>
-              <p className="text-sm text-gray-500">{(uploadedFile.size / 1024).toFixed(2)} KB</p>
+              <p className="text-sm text-gray-500">{formatFileSize(uploadedFile.size)}</p>
             </div>
           </div>
           <button onClick={onFileRemove} className="text-gray-400 hover:text-red-600 transition-colors">
@@ -97,12 +120,16 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
           }`}
         >
-          <UploadIcon className="h-8 w-8 text-gray-400 mb-2" />
+          {isChecking ? (
+            <SpinnerIcon className="animate-spin h-8 w-8 text-indigo-400 mb-2" />
+          ) : (
+            <UploadIcon className="h-8 w-8 text-gray-400 mb-2" />
+          )}
           <p className="text-center text-gray-600 text-sm">
-            <span className="font-semibold text-indigo-600">Click to upload</span> or drag and drop
+            <span className="font-semibold text-indigo-600">Click to upload</span> or drag and drop{multiple && ' (several at once)'}
           </p>
           <p className="text-xs text-gray-500 mt-1">
-            {acceptedTypes.join(', ').toUpperCase().replace(/\./g, '')} files only
+            {acceptedTypes.join(', ').toUpperCase().replace(/\./g, '')} files only, up to {formatFileSize(maxSizeBytes)} each
           </p>
           <input
             ref={inputRef}
@@ -110,11 +137,25 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             id={id}
             name={id}
             accept={acceptedTypes.join(',')}
-            onChange={(e) => handleFileChange(e.target.files)}
+            multiple={multiple}
+            onChange={(e) => {
+              handleFileChange(e.target.files);
+              e.target.value = '';
+            }}
             className="hidden"
           />
         </div>
       )}
+      {errors.length > 0 && (
+        <div role="alert" className="mt-2 flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          <ul className="flex-1 space-y-0.5">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+          <button onClick={() => setErrors([])} className="text-red-400 hover:text-red-600" aria-label="Dismiss upload errors">
+            <CloseIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { FileUpload } from './FileUpload';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { filterOccurrences, IcsParseError, parseIcs } from '../services/icalendar';
+import type { CalendarEventOccurrence } from '../types';
+import { fromISODate, toISODate } from '../utils/dates';
+
+const MAX_CALENDAR_BYTES = 5 * 1024 * 1024;
+
+interface IcsImportPanelProps {
+  selectedDates: Date[];
+  onImport: (dates: Date[]) => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+export const IcsImportPanel: React.FC<IcsImportPanelProps> = ({ selectedDates, onImport, showToast }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [occurrences, setOccurrences] = useState<CalendarEventOccurrence[]>([]);
+  const [filter, setFilter] = usePersistentState('icsEventFilter', 'office, desk');
+
+  // One row per day, listing every matching event on it.
+  const matchedDays = useMemo(() => {
+    const byDate = new Map<string, string[]>();
+    for (const occurrence of filterOccurrences(occurrences, filter)) {
+      byDate.set(occurrence.date, [...(byDate.get(occurrence.date) ?? []), occurrence.summary || occurrence.location]);
+    }
+    return [...byDate.entries()].map(([date, titles]) => ({ date, titles }));
+  }, [occurrences, filter]);
+
+  const selectedKeys = new Set(selectedDates.map(toISODate));
+  const newDays = matchedDays.filter(day => !selectedKeys.has(day.date));
+
+  const handleFileUpload = async (uploaded: File) => {
+    try {
+      const parsed = parseIcs(await uploaded.text());
+      setFile(uploaded);
+      setOccurrences(parsed);
+      if (parsed.length === 0) showToast('No events found in this calendar file.', 'error');
+    } catch (error) {
+      console.error(error);
+      showToast(error instanceof IcsParseError ? error.message : 'Could not read the calendar file.', 'error');
+    }
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setOccurrences([]);
+  };
+
+  const handleImport = () => {
+    onImport(newDays.map(day => fromISODate(day.date)));
+    showToast(`Added ${newDays.length} office day${newDays.length === 1 ? '' : 's'} from ${file?.name}.`, 'success');
+    handleReset();
+  };
+
+  return (
+    <div className="space-y-3">
+      <FileUpload
+        id="ics-import"
+        title="Import Office Days"
+        description="Upload a calendar export (.ics) to pick out your office days."
+        uploadedFile={file}
+        onFileUpload={handleFileUpload}
+        onFileRemove={handleReset}
+        acceptedTypes={['.ics']}
+        maxSizeBytes={MAX_CALENDAR_BYTES}
+        onError={message => showToast(message, 'error')}
+      />
+      <label className="block text-sm font-medium text-gray-700">
+        Events whose title or location contains
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="e.g. office, desk booking"
+          className="mt-1 block w-full rounded-lg border border-gray-300 py-2 px-3 text-sm focus:outline-none focus:border-indigo-300"
+        />
+        <span className="text-xs font-normal text-gray-500">Separate keywords with commas.</span>
+      </label>
+
+      {file && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+          {matchedDays.length === 0 ? (
+            <p className="text-gray-600">No events in {file.name} match this filter.</p>
+          ) : (
+            <>
+              <p className="font-medium text-gray-700 mb-2">
+                {matchedDays.length} matching day{matchedDays.length === 1 ? '' : 's'}
+                {newDays.length < matchedDays.length && `, ${matchedDays.length - newDays.length} already selected`}
+              </p>
+              <ul className="max-h-32 overflow-y-auto space-y-1 mb-3">
+                {matchedDays.map(day => (
+                  <li key={day.date} className={`flex justify-between gap-2 ${selectedKeys.has(day.date) ? 'text-gray-400' : 'text-gray-700'}`}>
+                    <span>{fromISODate(day.date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}</span>
+                    <span className="truncate text-xs">{day.titles.join(', ')}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={handleReset} className="px-3 py-1 rounded-lg text-gray-600 hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={newDays.length === 0}
+              onClick={handleImport}
+              className="px-3 py-1 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed"
+            >
+              Add {newDays.length} day{newDays.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { MarkdownContent } from './MarkdownContent';
+
+const renderMarkdown = (content: string) => render(<MarkdownContent content={content} />).container;
+
+const pwned = () => 'pwned' in window;
+
+const eventHandlerAttributes = (container: HTMLElement) =>
+  [...container.querySelectorAll('*')].flatMap(element =>
+    element.getAttributeNames().filter(name => name.toLowerCase().startsWith('on')));
+
+describe('MarkdownContent', () => {
+  it('drops script tags', () => {
+    const container = renderMarkdown('Hello <script>window.pwned = true</script> world');
+    // The tags go; what was between them is left as harmless text.
+    expect(container.querySelector('script')).toBeNull();
+    expect(pwned()).toBe(false);
+  });
+
+  it('drops images with event handlers', () => {
+    const container = renderMarkdown('<img src="x" onerror="window.pwned = true">');
+    expect(container.querySelector('img')).toBeNull();
+    expect(eventHandlerAttributes(container)).toEqual([]);
+    expect(pwned()).toBe(false);
+  });
+
+  it('drops raw HTML elements and their attributes', () => {
+    const container = renderMarkdown('<div onclick="alert(1)">click</div>\n\n<iframe src="https://example.com"></iframe>\n\n<a href="https://example.com" onmouseover="alert(1)">x</a>');
+    expect(container.querySelector('iframe')).toBeNull();
+    expect(container.querySelector('div[onclick]')).toBeNull();
+    expect(eventHandlerAttributes(container)).toEqual([]);
+  });
+
+  it('does not link to javascript: URLs', () => {
+    const container = renderMarkdown('[click me](javascript:alert(1)) and ![pic](javascript:alert(2)) and <javascript:alert(3)>');
+    const hrefs = [...container.querySelectorAll('[href]')].map(element => element.getAttribute('href') ?? '');
+    expect(hrefs.filter(href => /^\s*javascript:/i.test(href))).toEqual([]);
+    expect(container.textContent).toContain('click me');
+  });
+
+  it('keeps safe links, opening them in a new tab', () => {
+    const link = renderMarkdown('[TfL](https://tfl.gov.uk)').querySelector('a');
+    expect(link?.getAttribute('href')).toBe('https://tfl.gov.uk');
+    expect(link?.getAttribute('rel')).toContain('noopener');
+  });
+
+  it('styles only inline code as a pill', () => {
+    const container = renderMarkdown('Run `npm test`:\n\n```\nnpm test\n```\n\n```ts\nconst a = 1;\n```');
+    const [inline, plainBlock, tsBlock] = [...container.querySelectorAll('code')];
+    expect(inline.closest('pre')).toBeNull();
+    expect(inline.className).toContain('bg-gray-100');
+    expect(plainBlock.closest('pre')).not.toBeNull();
+    expect(plainBlock.className).not.toContain('bg-gray-100');
+    expect(tsBlock.className).toContain('language-ts');
+  });
+});
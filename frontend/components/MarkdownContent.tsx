@@ -0,0 +1,100 @@
+import React, { createContext, useContext, useState } from 'react';
+import Markdown, { defaultUrlTransform, type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+// Renders model output as Markdown without ever injecting HTML: raw HTML in
+// the source is dropped, URLs are limited to http(s)/mailto, and everything
+// else becomes React elements. Images are shown as links so a quoted
+// document can't make the browser fetch remote content.
+
+const SAFE_PROTOCOLS = /^(https?:|mailto:)/i;
+
+const urlTransform = (url: string) => {
+  const safe = defaultUrlTransform(url);
+  return SAFE_PROTOCOLS.test(safe) ? safe : '';
+};
+
+// Set inside a fenced block, so its <code> isn't styled as inline code.
+// Blocks without a language have no class to tell them apart by.
+const InCodeBlockContext = createContext(false);
+
+const Code: React.FC<{ className?: string; children?: React.ReactNode }> = ({ className, children }) =>
+  useContext(InCodeBlockContext) ? <code className={className}>{children}</code> : (
+    <code className="bg-gray-100 text-gray-800 rounded px-1 py-0.5 text-xs">{children}</code>
+  );
+
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const [copied, setCopied] = useState(false);
+  const codeRef = React.useRef<HTMLPreElement>(null);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codeRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access denied; nothing useful to show.
+    }
+  };
+
+  return (
+    <div className="relative group my-2">
+      <pre ref={codeRef} className="bg-gray-900 text-gray-100 text-xs rounded-lg p-3 overflow-x-auto">
+        <InCodeBlockContext.Provider value={true}>{children}</InCodeBlockContext.Provider>
+      </pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-1.5 right-1.5 px-2 py-0.5 rounded text-[10px] font-medium bg-gray-700 text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+};
+
+const components: Components = {
+  h1: ({ children }) => <h3 className="text-base font-bold mt-3 mb-1">{children}</h3>,
+  h2: ({ children }) => <h4 className="text-sm font-bold mt-3 mb-1">{children}</h4>,
+  h3: ({ children }) => <h5 className="text-sm font-semibold mt-2 mb-1">{children}</h5>,
+  h4: ({ children }) => <h6 className="text-sm font-semibold mt-2 mb-1">{children}</h6>,
+  h5: ({ children }) => <h6 className="text-sm font-semibold mt-2 mb-1">{children}</h6>,
+  h6: ({ children }) => <h6 className="text-sm font-semibold mt-2 mb-1">{children}</h6>,
+  p: ({ children }) => <p className="my-1">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-1 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-1 space-y-0.5">{children}</ol>,
+  a: ({ href, children }) =>
+    href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-600 underline hover:text-indigo-800">
+        {children}
+      </a>
+    ) : (
+      <span>{children}</span>
+    ),
+  img: ({ src, alt }) =>
+    typeof src === 'string' && src ? (
+      <a href={src} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-600 underline">
+        {alt || 'image'}
+      </a>
+    ) : (
+      <span>{alt}</span>
+    ),
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  code: ({ className, children }) => <Code className={className}>{children}</Code>,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="border-b border-gray-300 bg-gray-50 px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border-b border-gray-200 px-2 py-1">{children}</td>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-200 pl-3 text-gray-600 my-2">{children}</blockquote>,
+};
+
+export const MarkdownContent: React.FC<{ content: string }> = ({ content }) => (
+  <div className="prose prose-sm break-words">
+    <Markdown remarkPlugins={[remarkGfm]} components={components} urlTransform={urlTransform} skipHtml>
+      {content}
+    </Markdown>
+  </div>
+);
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { ReconciliationReport } from '../types';
+import { fromISODate } from '../utils/dates';
+
+interface ReconciliationPanelProps {
+  report: ReconciliationReport;
+  onAddDate: (date: string) => void;
+  onRemoveDate: (date: string) => void;
+}
+
+const formatDay = (date: string) =>
+  fromISODate(date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({ report, onAddDate, onRemoveDate }) => {
+  const { unclaimedTravel, workDaysWithoutTravel } = report;
+
+  if (unclaimedTravel.length === 0 && workDaysWithoutTravel.length === 0) {
+    return (
+      <p className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 flex-shrink-0">
+        Your selected days match the journeys in the invoice.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 flex-shrink-0 max-h-48 overflow-y-auto">
+      {unclaimedTravel.length > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm font-semibold text-amber-800">
+            Travel on {unclaimedTravel.length} day{unclaimedTravel.length === 1 ? '' : 's'} you haven't selected
+          </p>
+          <p className="text-xs text-amber-700 mb-2">Probably personal travel. Add a day if you were actually working.</p>
+          <ul className="space-y-1">
+            {unclaimedTravel.map(day => (
+              <li key={day.date} className="flex items-center justify-between gap-2 text-sm text-amber-900">
+                <span title={day.journeys.map(journey => journey.description).join('\n')}>
+                  {formatDay(day.date)} · {day.journeys.length} journey{day.journeys.length === 1 ? '' : 's'} · £{day.charged.toFixed(2)}
+                </span>
+                <button
+                  onClick={() => onAddDate(day.date)}
+                  className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                >
+                  Add to claim
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {workDaysWithoutTravel.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm font-semibold text-red-800">
+            {workDaysWithoutTravel.length} selected day{workDaysWithoutTravel.length === 1 ? ' has' : 's have'} no journeys
+          </p>
+          <p className="text-xs text-red-700 mb-2">Check the date, or upload the invoice that covers it.</p>
+          <ul className="space-y-1">
+            {workDaysWithoutTravel.map(day => (
+              <li key={day.date} className="flex items-center justify-between gap-2 text-sm text-red-900">
+                <span>
+                  {formatDay(day.date)}
+                  {day.outsideInvoicePeriod && <span className="text-xs text-red-600"> · outside this invoice's dates</span>}
+                </span>
+                <button
+                  onClick={() => onRemoveDate(day.date)}
+                  className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                >
+                  Remove from claim
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './icons';
+import { findPii, PII_LABELS, placeholderFor, redactionRequired, redactionSegments } from '../services/redaction';
+import type { RedactionDecisions } from '../hooks/useRedactionReview';
+import type { Redaction, RedactionDocument } from '../types';
+
+interface RedactionReviewProps {
+  documents: RedactionDocument[];
+  alwaysRedact: boolean;
+  onAlwaysRedactChange: (value: boolean) => void;
+  onConfirm: (decisions: RedactionDecisions) => void;
+  onCancel: () => void;
+}
+
+// Long documents are previewed from the start; redactions still apply to all of it.
+const PREVIEW_CHARS = 6000;
+
+interface DocumentReview {
+  candidates: Redaction[];
+  redacted: Set<string>; // texts of the candidates that will be hidden
+}
+
+const initialReview = (doc: RedactionDocument): DocumentReview => {
+  const candidates = findPii(doc.text);
+  return { candidates, redacted: new Set(candidates.map(candidate => candidate.text)) };
+};
+
+export const RedactionReview: React.FC<RedactionReviewProps> = ({
+  documents,
+  alwaysRedact,
+  onAlwaysRedactChange,
+  onConfirm,
+  onCancel,
+}) => {
+  const [reviews, setReviews] = useState(() => new Map(documents.map(doc => [doc.id, initialReview(doc)])));
+  const [activeId, setActiveId] = useState(documents[0]?.id ?? '');
+  const [customText, setCustomText] = useState('');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onCancel();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const active = documents.find(doc => doc.id === activeId) ?? documents[0];
+  const review = active ? reviews.get(active.id) : undefined;
+  const unreadable = documents.filter(doc => !doc.text.trim());
+  const mustRedact = alwaysRedact || redactionRequired;
+
+  const updateReview = (id: string, update: (review: DocumentReview) => DocumentReview) => {
+    setReviews(prev => {
+      const current = prev.get(id);
+      return current ? new Map(prev).set(id, update(current)) : prev;
+    });
+  };
+
+  const toggle = (text: string) => {
+    if (!active) return;
+    updateReview(active.id, ({ candidates, redacted }) => {
+      const next = new Set(redacted);
+      if (next.has(text)) next.delete(text);
+      else next.add(text);
+      return { candidates, redacted: next };
+    });
+  };
+
+  const addCustom = () => {
+    const text = customText.trim();
+    if (!active || !text || !active.text.includes(text)) return;
+    updateReview(active.id, ({ candidates, redacted }) => ({
+      candidates: candidates.some(candidate => candidate.text === text) ? candidates : [...candidates, { kind: 'custom', text }],
+      redacted: new Set(redacted).add(text),
+    }));
+    setCustomText('');
+  };
+
+  const handleSendRedacted = () => {
+    onConfirm(new Map(documents.map(doc => {
+      const { candidates, redacted } = reviews.get(doc.id) ?? initialReview(doc);
+      return [doc.id, candidates.filter(candidate => redacted.has(candidate.text))];
+    })));
+  };
+
+  const handleSendUnchanged = () => {
+    onConfirm(new Map(documents.map(doc => [doc.id, null])));
+  };
+
+  const preview = active ? active.text.slice(0, PREVIEW_CHARS) : '';
+  const customFound = !customText.trim() || (active?.text.includes(customText.trim()) ?? false);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Review redactions"
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-200">
+          <div>
+            <p className="text-sm font-semibold text-gray-800">Review personal details before sending</p>
+            <p className="text-xs text-gray-500">
+              Highlighted text is replaced before {documents.length === 1 ? 'this document is' : 'these documents are'} sent to the assistant server.
+              Click a highlight to keep or hide it.
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-700" aria-label="Cancel">
+            <CloseIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {documents.length > 1 && (
+          <div className="flex gap-1 px-4 pt-3 overflow-x-auto">
+            {documents.map(doc => (
+              <button
+                key={doc.id}
+                onClick={() => setActiveId(doc.id)}
+                className={`whitespace-nowrap rounded-full px-3 py-1 text-xs font-medium ${doc.id === active?.id ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+              >
+                {doc.file.name} ({reviews.get(doc.id)?.redacted.size ?? 0})
+              </button>
+            ))}
+          </div>
+        )}
+
+        {active && review && (
+          <div className="p-4 overflow-y-auto text-sm space-y-3 min-h-0">
+            {!active.text.trim() ? (
+              <p className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+                No text could be read from {active.file.name}{active.error ? ` (${active.error})` : ''}, so it can't be redacted.
+                {redactionRequired || alwaysRedact ? ' It can\'t be sent.' : ' You can still send it unchanged.'}
+              </p>
+            ) : (
+              <>
+                {review.candidates.length === 0 ? (
+                  <p className="text-gray-600">No personal details were found in {active.file.name}. Add anything else you want hidden below.</p>
+                ) : (
+                  <ul className="flex flex-wrap gap-2">
+                    {review.candidates.map(candidate => (
+                      <li key={candidate.text}>
+                        <label className="inline-flex items-center gap-1.5 rounded-full border border-gray-200 px-2 py-0.5 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={review.redacted.has(candidate.text)}
+                            onChange={() => toggle(candidate.text)}
+                            className="h-3 w-3 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          <span className="text-gray-500">{PII_LABELS[candidate.kind]}:</span>
+                          <span className="text-gray-800">{candidate.text}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={customText}
+                    onChange={(e) => setCustomText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addCustom()}
+                    placeholder="Other text to hide, e.g. a street address"
+                    className="flex-1 rounded-lg border border-gray-300 py-1.5 px-3 text-sm focus:outline-none focus:border-indigo-300"
+                  />
+                  <button
+                    onClick={addCustom}
+                    disabled={!customText.trim() || !customFound}
+                    className="rounded-lg border border-indigo-200 px-3 py-1.5 text-sm font-semibold text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    Hide
+                  </button>
+                </div>
+                {!customFound && <p className="text-xs text-red-600">That text doesn't appear in {active.file.name}.</p>}
+                <pre className="max-h-72 overflow-y-auto whitespace-pre-wrap break-words rounded-lg border border-gray-200 bg-gray-50 p-3 text-xs text-gray-700 font-sans">
+                  {redactionSegments(preview, review.candidates).map((segment, i) => {
+                    if (!segment.redaction) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+                    const hidden = review.redacted.has(segment.redaction.text);
+                    return (
+                      <button
+                        key={i}
+                        onClick={() => toggle(segment.text)}
+                        title={hidden ? `Hidden: ${segment.text}` : 'Will be sent; click to hide'}
+                        className={hidden
+                          ? 'rounded bg-gray-800 px-1 text-white'
+                          : 'rounded bg-amber-100 px-0.5 text-amber-900 underline decoration-dashed'}
+                      >
+                        {hidden ? placeholderFor(segment.redaction.kind) : segment.text}
+                      </button>
+                    );
+                  })}
+                  {active.text.length > PREVIEW_CHARS && '\n…'}
+                </pre>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 p-4 border-t border-gray-200">
+          <label className="flex items-center gap-2 text-xs text-gray-600 mr-auto">
+            <input
+              type="checkbox"
+              checked={mustRedact}
+              disabled={redactionRequired}
+              onChange={(e) => onAlwaysRedactChange(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {redactionRequired ? 'Redaction is required by your organisation' : 'Always redact documents before sending'}
+          </label>
+          {!mustRedact && (
+            <button onClick={handleSendUnchanged} className="text-sm font-semibold text-gray-600 hover:text-gray-800">
+              Send unchanged
+            </button>
+          )}
+          <button
+            onClick={handleSendRedacted}
+            disabled={unreadable.length > 0}
+            title={unreadable.length > 0 ? `${unreadable.map(doc => doc.file.name).join(', ')} can't be redacted` : undefined}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed"
+          >
+            Send redacted
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
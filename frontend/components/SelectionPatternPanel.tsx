@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { fromISODate, toISODate } from '../utils/dates';
+
+interface SelectionPatternPanelProps {
+  visibleMonth: Date;
+  onApply: (weekdays: number[], start: Date, end: Date) => void;
+  onCancel: () => void;
+}
+
+// Monday-first, to match how people describe office patterns.
+const WEEKDAYS = [
+  { label: 'Mo', value: 1 },
+  { label: 'Tu', value: 2 },
+  { label: 'We', value: 3 },
+  { label: 'Th', value: 4 },
+  { label: 'Fr', value: 5 },
+  { label: 'Sa', value: 6 },
+  { label: 'Su', value: 0 },
+];
+
+export const SelectionPatternPanel: React.FC<SelectionPatternPanelProps> = ({ visibleMonth, onApply, onCancel }) => {
+  const [weekdays, setWeekdays] = useState<number[]>([2, 3, 4]);
+  const [start, setStart] = useState(toISODate(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth(), 1)));
+  const [end, setEnd] = useState(toISODate(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + 1, 0)));
+
+  const toggleWeekday = (value: number) => {
+    setWeekdays(prev => (prev.includes(value) ? prev.filter(day => day !== value) : [...prev, value]));
+  };
+
+  const isValid = weekdays.length > 0 && start !== '' && end !== '' && start <= end;
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+      <div>
+        <p className="font-medium text-gray-700 mb-1">Repeat every</p>
+        <div className="flex gap-1">
+          {WEEKDAYS.map(day => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleWeekday(day.value)}
+              className={`h-8 w-8 rounded-full text-xs font-semibold transition-colors ${
+                weekdays.includes(day.value) ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-300 text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-gray-700">
+          From
+          <input
+            type="date"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+            className="mt-1 block w-full rounded-lg border border-gray-300 py-1 px-2"
+          />
+        </label>
+        <label className="text-gray-700">
+          To
+          <input
+            type="date"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            className="mt-1 block w-full rounded-lg border border-gray-300 py-1 px-2"
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1 rounded-lg text-gray-600 hover:bg-gray-200">
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={!isValid}
+          onClick={() => onApply(weekdays, fromISODate(start), fromISODate(end))}
+          className="px-3 py-1 rounded-lg bg-indigo-600 text-white font-semibold hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed"
+        >
+          Add days
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { describeSession } from '../store/appStore';
+import { useAppDispatch, useAppState } from '../store/AppStoreProvider';
+
+const formatSavedAt = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/** Offers back the session an earlier visit left unfinished. */
+export const SessionRestoreBanner: React.FC = () => {
+  const { restorableSession } = useAppState();
+  const dispatch = useAppDispatch();
+  if (!restorableSession) return null;
+
+  return (
+    <div role="status" className="mb-4 flex flex-wrap items-center gap-3 p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-900 flex-shrink-0">
+      <p className="flex-1 min-w-0">
+        <span className="font-semibold">Restore your previous session?</span>{' '}
+        From {formatSavedAt(restorableSession.savedAt)}: {describeSession(restorableSession)}.
+      </p>
+      <button
+        onClick={() => dispatch({ type: 'sessionDiscarded' })}
+        className="text-sm font-semibold text-gray-600 hover:text-gray-800"
+      >
+        Start fresh
+      </button>
+      <button
+        onClick={() => dispatch({ type: 'sessionRestored' })}
+        className="rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-indigo-700"
+      >
+        Restore
+      </button>
+    </div>
+  );
+};
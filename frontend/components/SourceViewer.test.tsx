@@ -0,0 +1,43 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { SourceViewer } from './SourceViewer';
+import type { ChatSource } from '../types';
+
+const csv = [
+  'Date,Start Time,End Time,Journey/Action,Charge,Credit,Balance,Note',
+  '06-Oct-2026,08:10,08:40,Bank to Stratford,2.80,,10.00,',
+  '07-Oct-2026,08:12,08:41,Stratford to Bank,2.80,,7.20,',
+  '08-Oct-2026,08:15,08:44,Bank to Stratford,2.80,,4.40,',
+].join('\n');
+
+// jsdom's File has no text(), so the contents are supplied directly.
+const file = Object.assign(new File([csv], 'invoice.csv', { type: 'text/csv' }), { text: async () => csv });
+
+const sourceFor = (row: number): ChatSource => ({
+  documentName: 'invoice.csv',
+  rows: { start: row, end: row },
+  snippet: `Row ${row}`,
+});
+
+const highlightedText = () =>
+  [...document.querySelectorAll('tr.bg-yellow-100')].map(row => row.textContent);
+
+describe('SourceViewer', () => {
+  it('highlights the cited rows of a CSV', async () => {
+    render(<SourceViewer source={sourceFor(2)} index={1} file={file} onClose={vi.fn()} />);
+    await screen.findByText('06-Oct-2026');
+    expect(highlightedText()).toEqual([expect.stringContaining('06-Oct-2026')]);
+  });
+
+  it('moves the highlight when another source is opened', async () => {
+    const { rerender } = render(<SourceViewer source={sourceFor(2)} index={1} file={file} onClose={vi.fn()} />);
+    await screen.findByText('06-Oct-2026');
+
+    rerender(<SourceViewer source={sourceFor(4)} index={2} file={file} onClose={vi.fn()} />);
+    expect(highlightedText()).toEqual([]);
+    expect(screen.getByText('Opening document...')).toBeTruthy();
+
+    await screen.findByText('08-Oct-2026');
+    expect(highlightedText()).toEqual([expect.stringContaining('08-Oct-2026')]);
+  });
+});
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon, SpinnerIcon } from './icons';
+import { extractPdfText } from '../services/pdfText';
+import { splitCsv } from '../services/tflCsv';
+import type { ChatSource } from '../types';
+
+interface SourceViewerProps {
+  source: ChatSource;
+  index: number;
+  /** The uploaded document, when it is the one the source cites. */
+  file: File | null;
+  onClose: () => void;
+}
+
+type Passage =
+  | { kind: 'rows'; header: string[]; rows: { line: number; cells: string[] }[] }
+  | { kind: 'page'; lines: { text: string; highlighted: boolean }[] };
+
+// Extra CSV rows shown either side of the cited range.
+const ROW_CONTEXT = 2;
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const loadPassage = async (source: ChatSource, file: File): Promise<Passage | null> => {
+  const name = file.name.toLowerCase();
+  if (source.rows && name.endsWith('.csv')) {
+    const lines = splitCsv(await file.text());
+    const first = Math.max(2, source.rows.start - ROW_CONTEXT);
+    const last = Math.min(lines.length, source.rows.end + ROW_CONTEXT);
+    const rows = [];
+    for (let line = first; line <= last; line++) rows.push({ line, cells: lines[line - 1] });
+    return { kind: 'rows', header: lines[0] ?? [], rows };
+  }
+  if (source.page && name.endsWith('.pdf')) {
+    const pages = await extractPdfText(file);
+    const page = pages.find(p => p.pageNumber === source.page);
+    if (!page) return null;
+    const snippet = normalise(source.snippet);
+    return {
+      kind: 'page',
+      lines: page.lines.map(text => {
+        const line = normalise(text);
+        return { text, highlighted: line.length > 3 && (snippet.includes(line) || line.includes(snippet)) };
+      }),
+    };
+  }
+  return null;
+};
+
+export const SourceViewer: React.FC<SourceViewerProps> = ({ source, index, file, onClose }) => {
+  // Tagged with the source and file it was loaded for, so switching to another
+  // citation never shows the previous one's highlighted passage or error.
+  const [loaded, setLoaded] = useState<{ source: ChatSource; file: File; passage: Passage | null; error: string | null } | null>(null);
+  const current = loaded && loaded.source === source && loaded.file === file ? loaded : null;
+  const passage = current?.passage ?? null;
+  const loadError = current?.error ?? null;
+  const isLoading = !!file && !current;
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    loadPassage(source, file)
+      .then(result => !cancelled && setLoaded({ source, file, passage: result, error: null }))
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) setLoaded({ source, file, passage: null, error: 'Could not open this part of the document.' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, file]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const location = [
+    source.page && `page ${source.page}`,
+    source.rows && (source.rows.start === source.rows.end ? `row ${source.rows.start}` : `rows ${source.rows.start}–${source.rows.end}`),
+  ].filter(Boolean).join(', ');
+  const isCited = (line: number) => !!source.rows && line >= source.rows.start && line <= source.rows.end;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Source ${index}`}
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-4 border-b border-gray-200">
+          <div>
+            <p className="text-sm font-semibold text-gray-800">[{index}] {source.documentName}</p>
+            <p className="text-xs text-gray-500">
+              {location || 'Location not given'}
+              {source.score !== undefined && ` · relevance ${Math.round(source.score * 100)}%`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700">
+            <CloseIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto text-sm space-y-4">
+          <blockquote className="border-l-4 border-indigo-300 bg-indigo-50 px-3 py-2 text-gray-700 whitespace-pre-wrap">
+            {source.snippet}
+          </blockquote>
+
+          {!file && (
+            <p className="text-xs text-gray-500">The cited document isn't loaded, so only the quoted passage can be shown.</p>
+          )}
+          {isLoading && (
+            <p className="flex items-center text-gray-500"><SpinnerIcon className="animate-spin h-4 w-4 mr-2" />Opening document...</p>
+          )}
+          {loadError && <p className="text-red-600">{loadError}</p>}
+
+          {passage?.kind === 'rows' && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-left text-gray-400">Row</th>
+                    {passage.header.map((cell, i) => (
+                      <th key={i} className="px-2 py-1 text-left font-semibold border-b border-gray-300">{cell}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {passage.rows.map(row => (
+                    <tr key={row.line} className={isCited(row.line) ? 'bg-yellow-100' : 'text-gray-500'}>
+                      <td className="px-2 py-1 text-gray-400">{row.line}</td>
+                      {row.cells.map((cell, i) => <td key={i} className="px-2 py-1 border-b border-gray-100">{cell}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {passage?.kind === 'page' && (
+            <div className="font-mono text-xs space-y-0.5">
+              {passage.lines.map((line, i) => (
+                <p key={i} className={line.highlighted ? 'bg-yellow-100' : 'text-gray-500'}>{line.text}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
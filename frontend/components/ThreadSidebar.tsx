@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import type { ChatThread } from '../types';
+import { CloseIcon } from './icons';
+
+interface ThreadSidebarProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  disabled: boolean; // while an answer is streaming
+  onSelect: (thread: ChatThread) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const formatUpdated = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const matchesSearch = (thread: ChatThread, query: string) => {
+  const needle = query.toLowerCase();
+  return thread.title.toLowerCase().includes(needle)
+    || thread.documents.some(document => document.name.toLowerCase().includes(needle))
+    || Object.values(thread.tree.nodes).some(node => node.message.content.toLowerCase().includes(needle));
+};
+
+export const ThreadSidebar: React.FC<ThreadSidebarProps> = ({
+  threads,
+  activeThreadId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+
+  const visible = query.trim() ? threads.filter(thread => matchesSearch(thread, query.trim())) : threads;
+
+  const commitRename = () => {
+    if (editing) onRename(editing.id, editing.title);
+    setEditing(null);
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (window.confirm(`Delete "${thread.title}"? Its messages and stored documents will be removed from this device.`)) {
+      onDelete(thread.id);
+    }
+  };
+
+  return (
+    <aside className="absolute inset-y-0 left-0 z-20 w-72 max-w-full bg-white border-r border-gray-200 shadow-xl flex flex-col p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Threads</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close threads">
+          <CloseIcon className="h-5 w-5" />
+        </button>
+      </div>
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className="mb-3 w-full rounded-lg bg-indigo-500 hover:bg-indigo-600 px-3 py-2 text-sm font-semibold text-white disabled:bg-indigo-300 disabled:cursor-not-allowed"
+      >
+        New thread
+      </button>
+      <button
+        onClick={() => importInputRef.current?.click()}
+        disabled={disabled}
+        className="mb-3 w-full rounded-lg border border-indigo-200 px-3 py-1.5 text-sm font-semibold text-indigo-600 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Import transcript (JSON)
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+      <input
+        type="search"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search threads"
+        className="mb-3 w-full border rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-indigo-300"
+      />
+      <ul className="flex-1 min-h-0 overflow-y-auto space-y-1">
+        {visible.length === 0 && (
+          <li className="text-sm text-gray-500 px-1">{threads.length === 0 ? 'No saved threads yet.' : 'No threads match your search.'}</li>
+        )}
+        {visible.map(thread => (
+          <li
+            key={thread.id}
+            className={`group rounded-lg px-2 py-2 ${thread.id === activeThreadId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+          >
+            {editing?.id === thread.id ? (
+              <input
+                autoFocus
+                value={editing.title}
+                onChange={e => setEditing({ id: thread.id, title: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                className="w-full border rounded px-2 py-1 text-sm focus:outline-none focus:border-indigo-300"
+              />
+            ) : (
+              <button
+                onClick={() => onSelect(thread)}
+                disabled={disabled}
+                className="block w-full text-left disabled:cursor-not-allowed"
+              >
+                <p className="truncate text-sm font-medium text-gray-800" title={thread.title}>{thread.title}</p>
+                <p className="truncate text-xs text-gray-500">
+                  {formatUpdated(thread.updatedAt)}
+                  {thread.documents.length > 0 && ` · ${thread.documents.map(document => document.name).join(', ')}`}
+                </p>
+              </button>
+            )}
+            {editing?.id !== thread.id && (
+              <div className="mt-1 flex gap-3 text-xs opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <button onClick={() => setEditing({ id: thread.id, title: thread.title })} className="text-indigo-600 hover:text-indigo-800">
+                  Rename
+                </button>
+                <button onClick={() => handleDelete(thread)} disabled={disabled} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                  Delete
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
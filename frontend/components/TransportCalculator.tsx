@@ -1,100 +1,351 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import { Calendar } from './Calendar';
 import { FileUpload } from './FileUpload';
+import { ReconciliationPanel } from './ReconciliationPanel';
+import { IcsImportPanel } from './IcsImportPanel';
+import { ClaimExportPanel } from './ClaimExportPanel';
+import { RedactionReview } from './RedactionReview';
 import { InfoIcon, SpinnerIcon } from './icons';
+import { calculateTransport, describeApiError, isAbortError } from '../services/api';
+import { calculateFares, claimForDates, travelDayOf, ZONE_BANDS } from '../services/fareEngine';
+import { fareTables } from '../data/fares';
+import { reconcile } from '../services/reconciliation';
+import { summariseDays } from '../services/journeys';
+import { BANK_HOLIDAY_REGIONS, getBankHolidays } from '../services/bankHolidays';
+import { buildClaim, downloadClaimCsv, openClaimReport } from '../services/claimExport';
+import { buildClaimRecord } from '../services/claimHistory';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { parseTflCsv } from '../services/tflCsv';
+import { parseTflPdf } from '../services/tflPdf';
+import { PdfExtractionError } from '../services/pdfText';
+import { DocumentTextError, extractDocumentText } from '../services/documentText';
+import { outgoingFile } from '../services/redaction';
+import { useRedactionReview } from '../hooks/useRedactionReview';
+import { useClaimLink } from '../hooks/useClaimLink';
+import { useAppDispatch, useAppState, useShowToast } from '../store/AppStoreProvider';
+import { fromISODate, toISODate } from '../utils/dates';
+import { addDates, removeDates, sortDates } from '../utils/dateSelection';
+import type {
+  BankHolidayRegion,
+  CalculatorAction,
+  CalculatorActionResult,
+  CalculatorController,
+  FareBreakdown,
+  FareOptions,
+  JourneyParseResult,
+  ZoneBand,
+} from '../types';
 
 interface TransportCalculatorProps {
-  showToast: (message: string, type: 'success' | 'error') => void;
-  onInvoiceFileShare: (file: File | null) => void;
+  controllerRef?: React.Ref<CalculatorController>; // lets the Document Assistant run confirmed actions
 }
 
-export const TransportCalculator: React.FC<TransportCalculatorProps> = ({ showToast, onInvoiceFileShare }) => {
-  const [selectedDates, setSelectedDates] = useState<Date[]>([]);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+const MAX_INVOICE_BYTES = 10 * 1024 * 1024;
+
+const formatShortDay = (date: string) => fromISODate(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+export const TransportCalculator: React.FC<TransportCalculatorProps> = ({ controllerRef }) => {
+  // The claim being worked on lives in the app store, so it's autosaved and
+  // the Document Assistant can see the shared invoice.
+  const { calculator, alwaysRedact } = useAppState();
+  const { selectedDates, invoiceFile: uploadedFile, shareInvoiceWithChat: enableChat, fareOptions, totalCost, fareBreakdown, capSavings, visibleMonth } = calculator;
+  const dispatch = useAppDispatch();
+  const showToast = useShowToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [totalCost, setTotalCost] = useState<number | null>(null);
-  const [enableChat, setEnableChat] = useState(false);
+  const [journeyData, setJourneyData] = useState<JourneyParseResult | null>(null);
+  const [isReadingInvoice, setIsReadingInvoice] = useState(false);
+  const [readProgress, setReadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [invoiceError, setInvoiceError] = useState<string | null>(null);
+  const [holidayRegion, setHolidayRegion] = usePersistentState<BankHolidayRegion>('bankHolidayRegion', 'england-and-wales');
+  const [leaveDates, setLeaveDates] = usePersistentState<string[]>('leaveDates', []);
+  const [claimant, setClaimant] = usePersistentState('claimantName', '');
+  const holidays = useMemo(() => getBankHolidays(holidayRegion), [holidayRegion]);
+  const requestRef = useRef<AbortController | null>(null);
+  const currentFileRef = useRef<File | null>(null);
+  const readRef = useRef<AbortController | null>(null);
+  const { reviewRedactions, pendingReview } = useRedactionReview(alwaysRedact);
+  const { shareUrl, invoiceMissing } = useClaimLink();
+  const calendarMonth = useMemo(() => fromISODate(`${visibleMonth}-01`), [visibleMonth]);
+
+  useEffect(() => () => {
+    requestRef.current?.abort();
+    readRef.current?.abort();
+  }, []);
 
   const handleClear = () => {
-    setSelectedDates([]);
-    setUploadedFile(null);
-    setTotalCost(null);
-    setEnableChat(false);
-    onInvoiceFileShare(null);
+    requestRef.current?.abort();
+    dispatch({ type: 'calculatorCleared' });
     showToast('Selection cleared', 'success');
   };
 
-  const handleFileUpload = (file: File) => {
-    setUploadedFile(file);
-    if (enableChat) {
-      onInvoiceFileShare(file);
+  const loadJourneys = async (file: File) => {
+    const name = file.name.toLowerCase();
+    const isPdf = name.endsWith('.pdf');
+    if (!isPdf && !name.endsWith('.csv')) return;
+
+    readRef.current?.abort();
+    const controller = new AbortController();
+    readRef.current = controller;
+    setIsReadingInvoice(true);
+    setReadProgress(null);
+    const onProgress = (done: number, total: number) => {
+      if (currentFileRef.current === file) setReadProgress({ done, total });
+    };
+    try {
+      const result = isPdf ? await parseTflPdf(file, controller.signal, onProgress) : parseTflCsv(await file.text());
+      if (currentFileRef.current !== file) return;
+      setJourneyData(result);
+      if (result.journeys.length === 0) {
+        setInvoiceError(result.issues[0]?.message ?? 'No journeys found in this file.');
+      } else if (result.issues.length > 0) {
+        showToast(`Read ${result.journeys.length} journeys; ${result.issues.length} rows could not be read.`, 'error');
+      } else {
+        showToast(`Read ${result.journeys.length} journeys from ${file.name}.`, 'success');
+      }
+    } catch (error) {
+      if (currentFileRef.current !== file) return;
+      console.error(error);
+      setInvoiceError(error instanceof PdfExtractionError ? error.message : 'Could not read this invoice.');
+    } finally {
+      if (readRef.current === controller) readRef.current = null;
+      if (currentFileRef.current === file) {
+        setIsReadingInvoice(false);
+        setReadProgress(null);
+      }
     }
   };
 
+  // Journeys are read whenever the invoice changes, including when a saved session is restored.
+  useEffect(() => {
+    readRef.current?.abort();
+    currentFileRef.current = uploadedFile;
+    setJourneyData(null);
+    setInvoiceError(null);
+    setIsReadingInvoice(false);
+    setReadProgress(null);
+    if (uploadedFile) loadJourneys(uploadedFile);
+    // loadJourneys only needs the file; re-reading on other changes would repeat its toasts.
+  }, [uploadedFile]);
+
+  const handleFileUpload = (file: File) => {
+    dispatch({ type: 'invoiceUploaded', file });
+  };
+
   const handleFileRemove = () => {
-    setUploadedFile(null);
-    onInvoiceFileShare(null);
+    dispatch({ type: 'invoiceRemoved' });
+  };
+
+  const handleFareOptionChange = (options: Partial<FareOptions>) => {
+    dispatch({ type: 'fareOptionsChanged', options });
+  };
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      showToast(uploadedFile
+        ? 'Link copied. It holds your days and fare options; whoever opens it will need to upload the invoice themselves.'
+        : 'Link copied.', 'success');
+    } catch {
+      showToast('Could not copy the link; copy it from the address bar instead.', 'error');
+    }
   };
 
   const handleToggleChat = (enabled: boolean) => {
-    setEnableChat(enabled);
+    dispatch({ type: 'chatSharingChanged', enabled });
     if (enabled && uploadedFile) {
-      onInvoiceFileShare(uploadedFile);
       showToast('Chat enabled with uploaded invoice', 'success');
     } else {
-      onInvoiceFileShare(null);
       showToast('Chat disabled', 'success');
     }
   };
 
-  const handleCalculate = async () => {
+  const applyLocalClaim = (breakdown: FareBreakdown, dates: Date[]) => {
+    const claim = claimForDates(breakdown, dates.map(toISODate));
+    dispatch({ type: 'claimCalculated', totalCost: claim.cost, fareBreakdown: breakdown, capSavings: Math.round((claim.charged - claim.cost) * 100) / 100 });
+    return claim.cost;
+  };
+
+  // Every finished calculation goes into the claims history. Later fixes to
+  // the dates update that entry until it has been submitted.
+  const recordClaim = (breakdown: FareBreakdown | null, dates: Date[], total: number, updateOnly = false) => {
+    if (!uploadedFile || dates.length === 0) return;
+    const claim = buildClaimRecord({ dates: dates.map(toISODate), totalCost: total, breakdown, invoiceName: uploadedFile.name });
+    dispatch({ type: 'claimRecorded', claim, updateOnly });
+  };
+
+  // Shown against travel days, so late-night journeys sit with the day they were capped on.
+  const dayDetails = useMemo(
+    () => (journeyData && journeyData.journeys.length > 0
+      ? summariseDays(journeyData.journeys.map(journey => ({ ...journey, date: travelDayOf(journey, fareTables) })))
+      : undefined),
+    [journeyData],
+  );
+
+  const reconciliation = useMemo(
+    () => (journeyData && journeyData.journeys.length > 0 && totalCost !== null
+      ? reconcile(journeyData.journeys, selectedDates.map(toISODate), fareTables)
+      : null),
+    [journeyData, selectedDates, totalCost],
+  );
+
+  // The store keeps the total in step with the selection when the fares are
+  // known, and drops a backend total that no longer matches it.
+  const setSelectedDates = (dates: Date[]) => {
+    const sorted = sortDates(dates);
+    dispatch({ type: 'datesChanged', dates: sorted });
+    if (fareBreakdown) recordClaim(fareBreakdown, sorted, claimForDates(fareBreakdown, sorted.map(toISODate)).cost, true);
+  };
+
+  const handleAddClaimDate = (date: string) => {
+    setSelectedDates([...selectedDates, fromISODate(date)]);
+  };
+
+  const handleRemoveClaimDate = (date: string) => {
+    setSelectedDates(selectedDates.filter(d => toISODate(d) !== date));
+  };
+
+  const warnAboutDaysOff = () => {
+    const leave = new Set(leaveDates);
+    const daysOff = selectedDates
+      .map(toISODate)
+      .filter(date => holidays[date] || leave.has(date))
+      .map(date => `${formatShortDay(date)} (${holidays[date] ?? 'leave'})`);
+    if (daysOff.length > 0) {
+      showToast(`Check your selection: ${daysOff.join(', ')} ${daysOff.length === 1 ? 'is a day off' : 'are days off'}.`, 'error');
+    }
+  };
+
+  /** Works out the claim for the selected days; resolves with the total, or null if it couldn't. */
+  const handleCalculate = async (): Promise<number | null> => {
     if (!uploadedFile || selectedDates.length === 0) {
       showToast('Please upload an invoice and select dates.', 'error');
-      return;
+      return null;
     }
+    warnAboutDaysOff();
     
-    setIsLoading(true);
-    setTotalCost(null);
+    // Invoices we could read locally don't need the backend, so the
+    // calculator keeps working when it is down or not configured.
+    if (journeyData && journeyData.journeys.length > 0) {
+      const breakdown = calculateFares(journeyData.journeys, fareOptions, fareTables);
+      const total = applyLocalClaim(breakdown, selectedDates);
+      recordClaim(breakdown, selectedDates, total);
+      showToast('Calculated from the journeys in your invoice.', 'success');
+      return total;
+    }
 
-    // TODO: Connect to LangGraph endpoint for transport calculation
+    // The invoice goes to the backend only as the user reviewed it, redacted by
+    // default. An invoice whose text can't be read can't be redacted, so the
+    // review says why and only offers sending the original, where that's allowed.
+    let text = '';
+    let error: string | undefined;
     try {
-      const formData = new FormData();
-      formData.append('file', uploadedFile);
-      formData.append('dates', JSON.stringify(selectedDates.map(d => d.toISOString().split('T')[0])));
-      
-      console.log('Submitting to backend:', {
-        file: uploadedFile.name,
-        dates: selectedDates.map(d => d.toISOString().split('T')[0])
-      });
+      text = await extractDocumentText(uploadedFile);
+    } catch (extractionError) {
+      console.error(extractionError);
+      error = extractionError instanceof DocumentTextError ? extractionError.message : 'its text could not be extracted';
+    }
+    const invoice = { id: 'invoice', file: uploadedFile, text, error };
+    const redactions = await reviewRedactions([invoice]);
+    if (!redactions) return null;
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Example fetch:
-      // const response = await fetch('/api/transport/calculate', {
-      //   method: 'POST',
-      //   body: formData,
-      // });
-      // if (!response.ok) throw new Error('Calculation failed');
-      // const result = await response.json();
-      
-      const mockResult = { totalCost: selectedDates.length * 5.75 + (Math.random() * 10) };
-      
-      setTotalCost(mockResult.totalCost);
+    setIsLoading(true);
+    dispatch({ type: 'calculationStarted' });
+
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    try {
+      const result = await calculateTransport(
+        { file: outgoingFile(invoice, redactions.get(invoice.id) ?? null), dates: selectedDates.map(toISODate) },
+        controller.signal,
+      );
+      dispatch({ type: 'claimCalculated', totalCost: result.totalCost, fareBreakdown: null, capSavings: 0 });
+      recordClaim(null, selectedDates, result.totalCost);
       showToast('Calculation successful!', 'success');
+      return result.totalCost;
     } catch (error) {
+      if (isAbortError(error)) return null;
       console.error(error);
-      showToast('An error occurred during calculation.', 'error');
+      showToast(describeApiError(error, 'An error occurred during calculation.'), 'error');
+      return null;
     } finally {
-      setIsLoading(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
   
-  const isButtonDisabled = !uploadedFile || selectedDates.length === 0 || isLoading;
+  const runAction = async (action: CalculatorAction): Promise<CalculatorActionResult> => {
+    switch (action.type) {
+      case 'selectDates': {
+        // Like the calendar's bulk selections, days off are left out.
+        const leave = new Set(leaveDates);
+        const daysOff = action.dates.filter(date => holidays[date] || leave.has(date));
+        const workDays = action.dates.filter(date => !daysOff.includes(date));
+        setSelectedDates(addDates(selectedDates, workDays.map(fromISODate)));
+        const skipped = daysOff.length > 0
+          ? ` Skipped ${daysOff.map(date => `${formatShortDay(date)} (${holidays[date] ?? 'leave'})`).join(', ')}.`
+          : '';
+        return { ok: true, message: `Selected ${workDays.length} day${workDays.length === 1 ? '' : 's'}.${skipped}` };
+      }
+      case 'deselectDates':
+        setSelectedDates(removeDates(selectedDates, action.dates.map(fromISODate)));
+        return { ok: true, message: `Deselected ${action.dates.length} day${action.dates.length === 1 ? '' : 's'}.` };
+      case 'clearDates': {
+        const month = action.month;
+        const kept = month ? selectedDates.filter(date => !toISODate(date).startsWith(`${month}-`)) : [];
+        setSelectedDates(kept);
+        return { ok: true, message: `Cleared ${selectedDates.length - kept.length} selected day${selectedDates.length - kept.length === 1 ? '' : 's'}.` };
+      }
+      case 'calculate': {
+        if (!uploadedFile) return { ok: false, message: 'Upload an invoice in the Transport Calculator first.' };
+        if (selectedDates.length === 0) return { ok: false, message: 'No work days are selected.' };
+        if (isLoading || isReadingInvoice) return { ok: false, message: 'The calculator is busy; try again in a moment.' };
+        const total = await handleCalculate();
+        return total === null
+          ? { ok: false, message: 'The calculation did not finish.' }
+          : { ok: true, message: `Total for ${selectedDates.length} day${selectedDates.length === 1 ? '' : 's'}: £${total.toFixed(2)}.` };
+      }
+      case 'exportClaim': {
+        if (totalCost === null || !uploadedFile) return { ok: false, message: 'Calculate the cost before exporting a claim.' };
+        const claim = buildClaim({
+          claimant: claimant.trim(),
+          dates: selectedDates.map(toISODate),
+          breakdown: fareBreakdown,
+          totalCost,
+          invoiceName: uploadedFile.name,
+          fareOptions,
+        });
+        if (action.format === 'csv') {
+          downloadClaimCsv(claim);
+          return { ok: true, message: 'Claim CSV downloaded.' };
+        }
+        return openClaimReport(claim)
+          ? { ok: true, message: 'Opened the printable claim.' }
+          : { ok: true, message: 'Pop-up blocked, so the report was downloaded instead.' };
+      }
+    }
+  };
+
+  useImperativeHandle(controllerRef, () => ({ runAction }));
+
+  const isButtonDisabled = !uploadedFile || selectedDates.length === 0 || isLoading || isReadingInvoice;
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg h-full flex flex-col overflow-hidden">
+      {pendingReview && (
+        <RedactionReview
+          documents={pendingReview.documents}
+          alwaysRedact={alwaysRedact}
+          onAlwaysRedactChange={value => dispatch({ type: 'alwaysRedactChanged', value })}
+          onConfirm={pendingReview.resolve}
+          onCancel={() => pendingReview.resolve(null)}
+        />
+      )}
       <div className="flex items-center gap-2 flex-shrink-0 mb-4">
         <h2 className="text-2xl font-bold text-gray-800">Transport Cost Calculator</h2>
         <div className="relative group">
@@ -108,11 +359,59 @@ export const TransportCalculator: React.FC<TransportCalculatorProps> = ({ showTo
 
       <div className="flex-1 min-h-0 flex flex-col gap-4 overflow-hidden">
         <div className="flex-1 min-h-0 space-y-2 overflow-y-auto">
-            <h3 className="text-lg font-semibold text-gray-800">1. Select Work Days</h3>
-            <Calendar selectedDates={selectedDates} onDateChange={setSelectedDates} />
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-lg font-semibold text-gray-800">1. Select Work Days</h3>
+              <button
+                type="button"
+                onClick={handleCopyLink}
+                disabled={!shareUrl}
+                title={shareUrl ? 'Copy a link to these days and fare options' : 'Select some days to share them'}
+                className="ml-auto text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+              >
+                Copy link
+              </button>
+              <select
+                value={holidayRegion}
+                onChange={(e) => setHolidayRegion(e.target.value as BankHolidayRegion)}
+                aria-label="Bank holidays for"
+                className="rounded-lg border border-gray-300 bg-white py-1 px-2 text-xs text-gray-600 focus:outline-none focus:border-indigo-300"
+              >
+                {BANK_HOLIDAY_REGIONS.map(region => (
+                  <option key={region.value} value={region.value}>{region.label} holidays</option>
+                ))}
+              </select>
+            </div>
+            <Calendar
+              selectedDates={selectedDates}
+              onDateChange={setSelectedDates}
+              dayDetails={dayDetails}
+              holidays={holidays}
+              leaveDates={leaveDates}
+              onLeaveChange={setLeaveDates}
+              visibleMonth={calendarMonth}
+              onVisibleMonthChange={month => dispatch({ type: 'visibleMonthChanged', month: toISODate(month).slice(0, 7) })}
+            />
+            <details className="p-3 rounded-lg border border-gray-200">
+              <summary className="cursor-pointer text-sm font-medium text-gray-700">
+                Import office days from your calendar (.ics)
+              </summary>
+              <div className="mt-3">
+                <IcsImportPanel
+                  selectedDates={selectedDates}
+                  onImport={(dates) => setSelectedDates(addDates(selectedDates, dates))}
+                  showToast={showToast}
+                />
+              </div>
+            </details>
         </div>
 
         <div className="space-y-2 flex-shrink-0">
+          {invoiceMissing && (
+            <p className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              These days were shared from a claim with an invoice, but links never include documents.
+              Upload the TfL invoice for this period again to see what they cost.
+            </p>
+          )}
            <FileUpload
               id="transport-invoice"
               title="2. Upload TFL Invoice"
@@ -121,6 +420,8 @@ export const TransportCalculator: React.FC<TransportCalculatorProps> = ({ showTo
               onFileUpload={handleFileUpload}
               onFileRemove={handleFileRemove}
               acceptedTypes={['.csv', '.pdf']}
+              maxSizeBytes={MAX_INVOICE_BYTES}
+              onError={message => showToast(message, 'error')}
           />
           
           {uploadedFile && (
@@ -137,14 +438,88 @@ export const TransportCalculator: React.FC<TransportCalculatorProps> = ({ showTo
               </label>
             </div>
           )}
+
+          {journeyData && journeyData.journeys.length > 0 && (
+            <div>
+              <label className="text-sm font-medium text-gray-700">
+                Zones travelled
+                <select
+                  value={fareOptions.zones}
+                  onChange={(e) => handleFareOptionChange({ zones: e.target.value as ZoneBand })}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 bg-white py-2 px-3 text-sm focus:outline-none focus:border-indigo-300"
+                >
+                  {ZONE_BANDS.map(band => <option key={band} value={band}>Zones {band}</option>)}
+                </select>
+              </label>
+              <p className="text-xs text-gray-500 mt-1">Oyster and contactless are capped the same way.</p>
+            </div>
+          )}
+
+          {isReadingInvoice && (
+            <p className="flex items-center text-sm text-gray-500">
+              <SpinnerIcon className="animate-spin h-4 w-4 mr-2" />
+              {readProgress ? `Reading page ${readProgress.done} of ${readProgress.total}...` : 'Reading journeys from your invoice...'}
+              <button onClick={handleFileRemove} className="ml-auto text-indigo-600 hover:text-indigo-800 font-semibold">
+                Cancel
+              </button>
+            </p>
+          )}
+
+          {invoiceError && (
+            <p className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {invoiceError}
+            </p>
+          )}
+
+          {journeyData && journeyData.journeys.length > 0 && journeyData.issues.length > 0 && (
+            <details className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              <summary className="cursor-pointer font-medium">
+                {journeyData.issues.length} row{journeyData.issues.length === 1 ? '' : 's'} could not be read
+              </summary>
+              <ul className="mt-2 space-y-1 text-xs max-h-24 overflow-y-auto">
+                {journeyData.issues.map(issue => (
+                  <li key={`${issue.row}-${issue.message}`}>
+                    {issue.row > 0 && <span className="font-semibold">Row {issue.row}: </span>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
         </div>
 
         {totalCost !== null && (
           <div className="bg-indigo-50 border-l-4 border-indigo-500 text-indigo-800 p-3 rounded-r-lg transition-all duration-500 flex-shrink-0">
             <p className="font-semibold text-sm">Total Estimated Cost:</p>
             <p className="text-2xl font-bold">£{totalCost.toFixed(2)}</p>
+            {fareBreakdown && capSavings > 0.005 && (
+              <p className="text-xs mt-1">
+                Includes £{capSavings.toFixed(2)} of daily and weekly fare caps shared across your selected days.
+              </p>
+            )}
           </div>
         )}
+
+        {totalCost !== null && uploadedFile && (
+          <ClaimExportPanel
+            dates={selectedDates.map(toISODate)}
+            breakdown={fareBreakdown}
+            totalCost={totalCost}
+            invoiceName={uploadedFile.name}
+            fareOptions={fareOptions}
+            claimant={claimant}
+            onClaimantChange={setClaimant}
+            showToast={showToast}
+          />
+        )}
+
+        {reconciliation && (
+          <ReconciliationPanel
+            report={reconciliation}
+            onAddDate={handleAddClaimDate}
+            onRemoveDate={handleRemoveClaimDate}
+          />
+        )}
       </div>
       
       <div className="flex flex-col sm:flex-row gap-4 flex-shrink-0 pt-4 mt-auto border-t border-gray-200">
@@ -160,6 +535,14 @@ export const TransportCalculator: React.FC<TransportCalculatorProps> = ({ showTo
             </>
           ) : 'Calculate Transport Cost'}
         </button>
+        {isLoading && (
+          <button
+            onClick={() => requestRef.current?.abort()}
+            className="w-full sm:w-auto bg-white border border-gray-300 text-gray-700 font-semibold py-3 px-6 rounded-lg hover:bg-gray-50 transition-colors duration-300"
+          >
+            Cancel
+          </button>
+        )}
         <button
           onClick={handleClear}
           className="w-full sm:w-auto bg-gray-200 text-gray-700 font-semibold py-3 px-6 rounded-lg hover:bg-gray-300 transition-colors duration-300"
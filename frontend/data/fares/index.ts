@@ -0,0 +1,9 @@
+import type { FareTable } from '../../types';
+
+// Every JSON file in this folder is a fare table. Add a new file when TfL
+// changes its caps; the engine picks the table in force on each travel day.
+const modules = import.meta.glob<FareTable>('./*.json', { eager: true, import: 'default' });
+
+export const fareTables: FareTable[] = Object.values(modules).sort((a, b) =>
+  a.effectiveFrom.localeCompare(b.effectiveFrom),
+);
@@ -0,0 +1,52 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useClaimLink } from './useClaimLink';
+import { AppStoreProvider, useAppDispatch } from '../store/AppStoreProvider';
+
+vi.mock('../services/sessionStore', () => ({
+  loadSession: async () => null,
+  saveSession: async () => {},
+  clearSession: async () => {},
+}));
+
+vi.mock('../services/claimStore', () => ({
+  listClaims: async () => [],
+  saveClaim: async () => {},
+  deleteClaim: async () => {},
+}));
+
+const renderClaimLink = () =>
+  renderHook(() => ({ link: useClaimLink(), dispatch: useAppDispatch() }), { wrapper: AppStoreProvider });
+
+describe('useClaimLink', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds a history entry for each new selection', () => {
+    const { result } = renderClaimLink();
+    const pushState = vi.spyOn(window.history, 'pushState');
+    act(() => result.current.dispatch({ type: 'datesChanged', dates: [new Date(2026, 9, 5)] }));
+    act(() => result.current.dispatch({ type: 'datesChanged', dates: [new Date(2026, 9, 5), new Date(2026, 9, 6)] }));
+    expect(pushState).toHaveBeenCalledTimes(2);
+    expect(window.location.hash).toContain('d=2026-10.1c');
+  });
+
+  it('still adds history entries after going back to the selection already shown', () => {
+    const { result } = renderClaimLink();
+    act(() => result.current.dispatch({ type: 'datesChanged', dates: [new Date(2026, 9, 5)] }));
+    const pushState = vi.spyOn(window.history, 'pushState');
+
+    // The entry being returned to holds the same days, so nothing changes.
+    act(() => {
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+    act(() => result.current.dispatch({ type: 'datesChanged', dates: [new Date(2026, 9, 5), new Date(2026, 9, 6)] }));
+
+    expect(pushState).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { decodeClaimLink, encodeClaimLink } from '../services/claimLink';
+import { useAppDispatch, useAppState } from '../store/AppStoreProvider';
+import { toISODate } from '../utils/dates';
+import type { ClaimLink } from '../types';
+
+const NO_SELECTION: ClaimLink = { month: '', dates: [], fareOptions: {}, hasInvoice: false };
+
+// The part of a link that decides whether a change is a new history entry.
+const selectionOf = (link: ClaimLink) => (link.dates.length > 0 ? encodeClaimLink({ ...link, month: '', hasInvoice: false }) : '');
+
+const urlWithHash = (hash: string) => `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+
+/**
+ * Keeps the address bar in step with the Transport Calculator's selection,
+ * so the page can be shared or bookmarked. Changing the days or fare options
+ * adds a history entry, which back and forward step through; paging the
+ * calendar only updates the current one. The page's first link is applied
+ * by the app store when it starts.
+ */
+export function useClaimLink() {
+  const { calculator } = useAppState();
+  const dispatch = useAppDispatch();
+  const { selectedDates, fareOptions, visibleMonth, invoiceFile } = calculator;
+  // Whether the link that was opened came from someone with an invoice loaded.
+  const [linkHadInvoice, setLinkHadInvoice] = useState(() => decodeClaimLink(window.location.hash)?.hasInvoice ?? false);
+  // Set while the state is catching up with the URL, so it isn't pushed back as a new entry.
+  const fromUrlRef = useRef(true);
+  const selectionRef = useRef<string | null>(null);
+  const fareOptionsRef = useRef(fareOptions);
+
+  const link: ClaimLink = {
+    month: visibleMonth,
+    dates: selectedDates.map(toISODate),
+    fareOptions,
+    hasInvoice: invoiceFile !== null || linkHadInvoice,
+  };
+  const hash = link.dates.length > 0 ? encodeClaimLink(link) : '';
+  const selection = selectionOf(link);
+
+  useEffect(() => {
+    if (invoiceFile) setLinkHadInvoice(false);
+  }, [invoiceFile]);
+
+  useEffect(() => {
+    const current = window.location.hash.replace(/^#/, '');
+    const selectionChanged = selectionRef.current !== null && selection !== selectionRef.current;
+    const fromUrl = fromUrlRef.current;
+    selectionRef.current = selection;
+    fareOptionsRef.current = fareOptions;
+    fromUrlRef.current = false;
+    // Leave fragments that aren't claim links alone until there is something to share.
+    if (hash === current || (!hash && !decodeClaimLink(current))) return;
+    if (selectionChanged && !fromUrl) window.history.pushState(null, '', urlWithHash(hash));
+    else window.history.replaceState(null, '', urlWithHash(hash));
+  }, [hash, selection]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const opened = decodeClaimLink(window.location.hash) ?? NO_SELECTION;
+      // Only a new selection re-runs the effect above, which is what clears
+      // the flag; the link's options apply over the current ones.
+      const selection = selectionOf({ ...opened, fareOptions: { ...fareOptionsRef.current, ...opened.fareOptions } });
+      fromUrlRef.current = selection !== selectionRef.current;
+      setLinkHadInvoice(opened.hasInvoice);
+      dispatch({ type: 'claimLinkOpened', link: opened });
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [dispatch]);
+
+  return {
+    /** The link to the current selection, or null when no days are selected. */
+    shareUrl: hash ? `${window.location.origin}${urlWithHash(hash)}` : null,
+    /** The opened link was made with an invoice, and none has been uploaded here yet. */
+    invoiceMissing: linkHadInvoice && !invoiceFile,
+  };
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DocumentTextError, extractDocumentText } from '../services/documentText';
+import { LocalRetriever } from '../services/retrieval';
+import type { ChatDocument, StoredDocument } from '../types';
+
+const SHARED_INVOICE_ID = 'shared-invoice';
+
+/**
+ * The Document Assistant's set of files. Each upload is read in the
+ * background and added to a local search index, which is what its status
+ * reports; the Transport Calculator's invoice, when shared, is kept in sync
+ * as one more entry.
+ */
+export function useDocumentLibrary(sharedInvoiceFile: File | null | undefined) {
+  const [documents, setDocuments] = useState<ChatDocument[]>([]);
+  const mountedRef = useRef(true);
+  const retrieverRef = useRef<LocalRetriever | null>(null);
+  // The file each library entry currently holds, so a read that finishes
+  // after its entry was removed or replaced is discarded.
+  const filesRef = useRef(new Map<string, File>());
+  // Reads in progress, so removing an entry also stops reading it.
+  const readsRef = useRef(new Map<string, AbortController>());
+
+  const cancelRead = useCallback((id: string) => {
+    readsRef.current.get(id)?.abort();
+    readsRef.current.delete(id);
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    const retriever = new LocalRetriever();
+    retrieverRef.current = retriever;
+    const reads = readsRef.current;
+    return () => {
+      mountedRef.current = false;
+      reads.forEach(controller => controller.abort());
+      reads.clear();
+      retriever.dispose();
+      retrieverRef.current = null;
+    };
+  }, []);
+
+  const updateDocument = useCallback((id: string, update: Partial<ChatDocument>) => {
+    if (!mountedRef.current) return;
+    setDocuments(prev => prev.map(doc => (doc.id === id ? { ...doc, ...update } : doc)));
+  }, []);
+
+  const indexDocument = useCallback(async (doc: ChatDocument) => {
+    cancelRead(doc.id);
+    const controller = new AbortController();
+    readsRef.current.set(doc.id, controller);
+    const onProgress = (done: number, total: number) => {
+      if (filesRef.current.get(doc.id) === doc.file) updateDocument(doc.id, { progress: { done, total } });
+    };
+    try {
+      const text = await extractDocumentText(doc.file, controller.signal, onProgress);
+      if (filesRef.current.get(doc.id) !== doc.file) return;
+      if (!text.trim()) {
+        updateDocument(doc.id, { status: 'failed', error: 'No text could be found in this file.', inScope: false });
+        return;
+      }
+      retrieverRef.current?.index(doc.id, doc.file.name, text);
+      updateDocument(doc.id, { status: 'indexed', text, progress: undefined });
+    } catch (error) {
+      if (filesRef.current.get(doc.id) !== doc.file) return;
+      console.error(error);
+      const message = error instanceof DocumentTextError ? error.message : 'This file could not be read.';
+      updateDocument(doc.id, { status: 'failed', error: message, inScope: false, progress: undefined });
+    } finally {
+      if (readsRef.current.get(doc.id) === controller) readsRef.current.delete(doc.id);
+    }
+  }, [cancelRead, updateDocument]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added: ChatDocument[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      origin: 'upload',
+      status: 'parsing',
+      inScope: true,
+    }));
+    added.forEach(doc => filesRef.current.set(doc.id, doc.file));
+    setDocuments(prev => [...prev, ...added]);
+    added.forEach(indexDocument);
+    return added;
+  }, [indexDocument]);
+
+  const removeDocument = useCallback((id: string) => {
+    cancelRead(id);
+    filesRef.current.delete(id);
+    retrieverRef.current?.remove(id);
+    setDocuments(prev => prev.filter(doc => doc.id !== id));
+  }, [cancelRead]);
+
+  /** Swaps the uploaded documents for ones restored from a saved thread; the shared invoice stays. */
+  const replaceUploads = useCallback((stored: StoredDocument[]) => {
+    for (const id of filesRef.current.keys()) {
+      if (id === SHARED_INVOICE_ID) continue;
+      cancelRead(id);
+      filesRef.current.delete(id);
+      retrieverRef.current?.remove(id);
+    }
+    const restored: ChatDocument[] = stored.map(({ id, file, text }) => ({
+      id,
+      file,
+      origin: 'upload',
+      status: 'indexed',
+      text,
+      inScope: true,
+    }));
+    for (const doc of restored) {
+      filesRef.current.set(doc.id, doc.file);
+      retrieverRef.current?.index(doc.id, doc.file.name, doc.text ?? '');
+    }
+    setDocuments(prev => [...prev.filter(doc => doc.origin === 'invoice'), ...restored]);
+  }, [cancelRead]);
+
+  const toggleScope = useCallback((id: string) => {
+    setDocuments(prev => prev.map(doc => (doc.id === id && doc.status !== 'failed' ? { ...doc, inScope: !doc.inScope } : doc)));
+  }, []);
+
+  useEffect(() => {
+    cancelRead(SHARED_INVOICE_ID);
+    filesRef.current.delete(SHARED_INVOICE_ID);
+    retrieverRef.current?.remove(SHARED_INVOICE_ID);
+    if (!sharedInvoiceFile) {
+      setDocuments(prev => prev.filter(doc => doc.id !== SHARED_INVOICE_ID));
+      return;
+    }
+    const invoice: ChatDocument = {
+      id: SHARED_INVOICE_ID,
+      file: sharedInvoiceFile,
+      origin: 'invoice',
+      status: 'parsing',
+      inScope: true,
+    };
+    filesRef.current.set(SHARED_INVOICE_ID, sharedInvoiceFile);
+    setDocuments(prev => [invoice, ...prev.filter(doc => doc.id !== SHARED_INVOICE_ID)]);
+    indexDocument(invoice);
+  }, [sharedInvoiceFile, cancelRead, indexDocument]);
+
+  /** Best-matching passages from the given documents; empty if the local index is unavailable. */
+  const searchDocuments = useCallback(async (query: string, documentIds: string[]) => {
+    const retriever = retrieverRef.current;
+    if (!retriever) return [];
+    return retriever.search(query, documentIds);
+  }, []);
+
+  return { documents, addFiles, removeDocument, replaceUploads, toggleScope, searchDocuments };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * useState backed by localStorage, for small user preferences that should
+ * survive a reload. Values must be JSON-serialisable.
+ */
+export function usePersistentState<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored === null ? initialValue : (JSON.parse(stored) as T);
+    } catch {
+      return initialValue;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Storage can be full or disabled (e.g. private browsing); the value
+      // still works for this session.
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
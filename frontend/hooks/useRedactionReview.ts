@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { findPii, redactionRequired } from '../services/redaction';
+import type { RedactionDecision, RedactionDocument } from '../types';
+
+export type RedactionDecisions = Map<string, RedactionDecision>;
+
+interface PendingReview {
+  documents: RedactionDocument[];
+  resolve: (decisions: RedactionDecisions | null) => void;
+}
+
+/**
+ * Asks the user how each document should be redacted the first time it is
+ * about to leave the browser, and remembers the answer for as long as the
+ * document is unchanged. With `alwaysRedact` on (or redaction required by
+ * the build), sending a document unchanged isn't offered, and earlier
+ * choices to do so are asked again.
+ */
+export function useRedactionReview(alwaysRedact: boolean) {
+  const [pending, setPending] = useState<PendingReview | null>(null);
+  const decisionsRef = useRef(new Map<string, { file: File; decision: RedactionDecision }>());
+  const pendingRef = useRef<PendingReview | null>(null);
+  const mustRedact = alwaysRedact || redactionRequired;
+  pendingRef.current = pending;
+
+  // A review left open when the component unmounts counts as cancelled.
+  useEffect(() => () => pendingRef.current?.resolve(null), []);
+
+  /** Resolves with a decision per document, or null if the user cancelled. */
+  const reviewRedactions = useCallback((documents: RedactionDocument[]): Promise<RedactionDecisions | null> => {
+    const known = (doc: RedactionDocument) => {
+      const saved = decisionsRef.current.get(doc.id);
+      return saved && saved.file === doc.file && (saved.decision !== null || !mustRedact) ? saved : null;
+    };
+    const decide = () => new Map(documents.map(doc => [doc.id, known(doc)?.decision ?? null]));
+    const unreviewed = documents.filter(doc => !known(doc));
+    if (unreviewed.length === 0) return Promise.resolve(decide());
+
+    return new Promise(resolve => {
+      pendingRef.current?.resolve(null);
+      setPending({
+        documents: unreviewed,
+        resolve: reviewed => {
+          setPending(null);
+          if (!reviewed) {
+            resolve(null);
+            return;
+          }
+          for (const doc of unreviewed) {
+            // Anything the dialog didn't answer for gets the detected redactions, never the original.
+            const decision = reviewed.has(doc.id) ? reviewed.get(doc.id) ?? null : findPii(doc.text);
+            decisionsRef.current.set(doc.id, { file: doc.file, decision });
+          }
+          resolve(decide());
+        },
+      });
+    });
+  }, [mustRedact]);
+
+  return { reviewRedactions, pendingReview: pending };
+}
@@ -0,0 +1,66 @@
+import { StrictMode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useThreads } from './useThreads';
+import { createTree } from '../services/messageTree';
+import * as threadStore from '../services/threadStore';
+import type { ChatThread } from '../types';
+
+vi.mock('../services/threadStore', () => ({
+  listThreads: vi.fn(),
+  saveThread: vi.fn(),
+  saveDocument: vi.fn(),
+  loadDocuments: vi.fn(),
+  deleteThread: vi.fn(),
+}));
+
+const stored: ChatThread = {
+  id: 'stored',
+  title: 'Stored',
+  titleEdited: false,
+  createdAt: '2026-10-01T09:00:00.000Z',
+  updatedAt: '2026-10-01T09:00:00.000Z',
+  tree: createTree({ role: 'assistant', content: 'Hello' }, 'root'),
+  documents: [],
+};
+
+const renderThreads = async () => {
+  const hook = renderHook(() => useThreads(() => {}), { wrapper: StrictMode });
+  await waitFor(() => expect(hook.result.current.loaded).toBe(true));
+  return hook;
+};
+
+describe('useThreads', () => {
+  beforeEach(() => {
+    vi.mocked(threadStore.listThreads).mockResolvedValue([stored]);
+    vi.mocked(threadStore.saveThread).mockReset().mockResolvedValue();
+    vi.mocked(threadStore.deleteThread).mockReset().mockResolvedValue();
+  });
+
+  it('does not write back threads it has just loaded', async () => {
+    const { result } = await renderThreads();
+    expect(result.current.threads).toEqual([stored]);
+    expect(threadStore.saveThread).not.toHaveBeenCalled();
+  });
+
+  it('saves each change once, even when updaters run twice', async () => {
+    const { result } = await renderThreads();
+    act(() => result.current.renameThread('stored', 'Renamed'));
+    expect(threadStore.saveThread).toHaveBeenCalledTimes(1);
+    expect(threadStore.saveThread).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'stored', title: 'Renamed' }));
+
+    act(() => result.current.renameThread('stored', 'Renamed'));
+    expect(threadStore.saveThread).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not save a thread after it is deleted', async () => {
+    const { result } = await renderThreads();
+    act(() => {
+      result.current.renameThread('stored', 'Renamed');
+      result.current.deleteThread('stored');
+    });
+    expect(result.current.threads).toEqual([]);
+    expect(threadStore.saveThread).not.toHaveBeenCalled();
+    expect(threadStore.deleteThread).toHaveBeenCalledWith('stored');
+  });
+});
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as threadStore from '../services/threadStore';
+import type { ChatThread, MessageTree, StoredDocument } from '../types';
+
+const TITLE_LENGTH = 48;
+
+/** A thread's default title: its first question, shortened to fit the sidebar. */
+export const autoTitle = (question: string) => {
+  const text = question.replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : text || 'New thread';
+};
+
+type ThreadChanges = Partial<Pick<ChatThread, 'tree' | 'documents' | 'title' | 'titleEdited'>>;
+
+const sameDocuments = (a: ChatThread['documents'], b: ChatThread['documents']) =>
+  a.length === b.length && a.every((document, i) => document.id === b[i].id);
+
+const hasChanges = (thread: ChatThread, changes: ThreadChanges) =>
+  (Object.keys(changes) as (keyof ThreadChanges)[]).some(key =>
+    key === 'documents' ? !sameDocuments(thread.documents, changes.documents ?? []) : changes[key] !== thread[key]);
+
+/**
+ * Saved Document Assistant threads, most recently active first. Changes are
+ * applied to state straight away and written to IndexedDB after render; if
+ * storage is unavailable the threads still work for the session.
+ */
+export function useThreads(onStorageError: (message: string) => void) {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  // Thread objects as they are in IndexedDB; every other thread in state has unsaved changes.
+  const storedRef = useRef(new WeakSet<ChatThread>());
+  const storageFailedRef = useRef(false);
+  const onStorageErrorRef = useRef(onStorageError);
+  onStorageErrorRef.current = onStorageError;
+
+  const reportStorageError = useCallback((error: unknown) => {
+    console.error(error);
+    if (storageFailedRef.current) return;
+    storageFailedRef.current = true;
+    onStorageErrorRef.current('Conversations could not be saved on this device, so they will be lost on reload.');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    threadStore.listThreads()
+      .then(stored => {
+        if (cancelled) return;
+        for (const thread of stored) storedRef.current.add(thread);
+        setThreads(prev => [...prev, ...stored.filter(thread => !prev.some(p => p.id === thread.id))]);
+      })
+      .catch(reportStorageError)
+      .finally(() => !cancelled && setLoaded(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [reportStorageError]);
+
+  useEffect(() => {
+    for (const thread of threads) {
+      if (storedRef.current.has(thread)) continue;
+      storedRef.current.add(thread);
+      threadStore.saveThread(thread).catch(reportStorageError);
+    }
+  }, [threads, reportStorageError]);
+
+  const createThread = useCallback((question: string, tree: MessageTree): ChatThread => {
+    const now = new Date().toISOString();
+    const thread: ChatThread = {
+      id: crypto.randomUUID(),
+      title: autoTitle(question),
+      titleEdited: false,
+      createdAt: now,
+      updatedAt: now,
+      tree,
+      documents: [],
+    };
+    setThreads(prev => [thread, ...prev]);
+    return thread;
+  }, []);
+
+  /** Adds a thread from an imported transcript. Its documents aren't in the file, so it starts without any. */
+  const importThread = useCallback((imported: Pick<ChatThread, 'title' | 'createdAt' | 'tree'>): ChatThread => {
+    const thread: ChatThread = {
+      id: crypto.randomUUID(),
+      title: imported.title,
+      titleEdited: true,
+      createdAt: imported.createdAt,
+      updatedAt: new Date().toISOString(),
+      tree: imported.tree,
+      documents: [],
+    };
+    setThreads(prev => [thread, ...prev]);
+    return thread;
+  }, []);
+
+  const updateThread = useCallback((id: string, changes: ThreadChanges) => {
+    setThreads(prev => {
+      const thread = prev.find(candidate => candidate.id === id);
+      if (!thread) return prev;
+      if (!hasChanges(thread, changes)) return prev;
+      // Only conversation changes count as activity; renaming or re-scoping doesn't reorder the list.
+      const updated = { ...thread, ...changes, updatedAt: changes.tree && changes.tree !== thread.tree ? new Date().toISOString() : thread.updatedAt };
+      return [updated, ...prev.filter(candidate => candidate.id !== id)].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    });
+  }, []);
+
+  const renameThread = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (trimmed) updateThread(id, { title: trimmed, titleEdited: true });
+  }, [updateThread]);
+
+  const deleteThread = useCallback((id: string) => {
+    setThreads(prev => prev.filter(thread => thread.id !== id));
+    threadStore.deleteThread(id).catch(reportStorageError);
+  }, [reportStorageError]);
+
+  const saveDocument = useCallback((document: StoredDocument) => {
+    threadStore.saveDocument(document).catch(reportStorageError);
+  }, [reportStorageError]);
+
+  const loadDocuments = useCallback(async (ids: string[]) => {
+    try {
+      return await threadStore.loadDocuments(ids);
+    } catch (error) {
+      reportStorageError(error);
+      return [];
+    }
+  }, [reportStorageError]);
+
+  return { threads, loaded, createThread, importThread, updateThread, renameThread, deleteThread, saveDocument, loadDocuments };
+}
@@ -0,0 +1,190 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+// Dev-only stand-in for the Python backend. Enabled with `npm run dev:mock`,
+// it answers the same routes as the real API so the UI can be exercised
+// without running LangGraph locally.
+
+const MOCK_LATENCY_MS = 800;
+const MOCK_TOKEN_DELAY_MS = 40;
+const MOCK_FARE_PER_DAY = 5.75;
+
+const MOCK_CHAT_ANSWER =
+  "This is a **mock response** from the local dev server. The backend isn't running, so I haven't read your document.\n\n" +
+  '* Start the backend and set `BACKEND_URL` for real answers.\n' +
+  '* Or keep using mock mode to work on the UI.';
+
+const MOCK_ACTION_ANSWER = 'Here is what I can do in the Transport Calculator. Check each step and apply the ones you want.';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const isoDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * A keyword-level stand-in for the backend's tool calling, enough to drive
+ * the action cards: "select every Tuesday and Thursday in November except
+ * the 11th and recalculate". Put `#forbidden` in a question to get an action
+ * the frontend must refuse.
+ */
+const mockActions = (question: string): unknown[] => {
+  const text = question.toLowerCase();
+  const actions: unknown[] = [];
+  const monthIndex = MONTHS.findIndex(name => text.includes(name));
+  const year = new Date().getFullYear();
+
+  const weekdays = WEEKDAYS.map((name, i) => (text.includes(name) ? i : -1)).filter(i => i >= 0);
+  if (weekdays.length > 0 && monthIndex >= 0 && !text.includes('clear')) {
+    const exceptMatch = text.match(/except\s+(?:the\s+)?([\d\s,a-z]+)/);
+    const excluded = new Set((exceptMatch?.[1].match(/\d{1,2}/g) ?? []).map(Number));
+    const dates: string[] = [];
+    for (let day = 1; day <= new Date(year, monthIndex + 1, 0).getDate(); day++) {
+      if (weekdays.includes(new Date(year, monthIndex, day).getDay()) && !excluded.has(day)) {
+        dates.push(isoDate(year, monthIndex, day));
+      }
+    }
+    actions.push({ type: text.includes('deselect') || text.includes('remove') ? 'deselectDates' : 'selectDates', dates });
+  }
+  if (text.includes('clear')) {
+    actions.push(monthIndex >= 0 ? { type: 'clearDates', month: isoDate(year, monthIndex, 1).slice(0, 7) } : { type: 'clearDates' });
+  }
+  if (text.includes('calculate')) actions.push({ type: 'calculate' });
+  if (text.includes('export') || text.includes('download')) actions.push({ type: 'exportClaim', format: 'csv' });
+  if (text.includes('print')) actions.push({ type: 'exportClaim', format: 'html' });
+  if (text.includes('#forbidden')) actions.push({ type: 'deleteInvoice' });
+  return actions;
+};
+
+type Handler = (form: FormData, res: ServerResponse) => Promise<void> | void;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const sendEvent = (res: ServerResponse, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Streams `text` word by word as Server-Sent Events. Include `#drop` in the
+ * question to have the stream cut off halfway, or `#error` for an error
+ * event, to exercise the UI's failure states.
+ */
+const streamAnswer = async (
+  res: ServerResponse,
+  text: string,
+  question: string,
+  sources: unknown[],
+  actions: unknown[] = [],
+): Promise<void> => {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const tokens = text.match(/\S+\s*|\s+/g) ?? [];
+  for (let i = 0; i < tokens.length && !closed; i++) {
+    if (i === Math.floor(tokens.length / 2)) {
+      if (question.includes('#drop')) {
+        res.destroy();
+        return;
+      }
+      if (question.includes('#error')) {
+        sendEvent(res, 'error', { detail: 'Mock error halfway through the answer.' });
+        res.end();
+        return;
+      }
+    }
+    sendEvent(res, 'token', { text: tokens[i] });
+    await sleep(MOCK_TOKEN_DELAY_MS);
+  }
+  if (!closed) {
+    if (actions.length > 0) sendEvent(res, 'action', { actions });
+    sendEvent(res, 'sources', { sources });
+    sendEvent(res, 'done', { traceId: `mock-trace-${randomUUID()}` });
+    res.end();
+  }
+};
+
+const readForm = async (req: IncomingMessage): Promise<FormData> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const request = new Request('http://mock.local', {
+    method: 'POST',
+    headers: { 'content-type': req.headers['content-type'] ?? '' },
+    body: Buffer.concat(chunks),
+  });
+  return request.formData();
+};
+
+const routes: Record<string, Handler> = {
+  '/api/transport/calculate': (form, res) => {
+    let dates: unknown;
+    try {
+      dates = JSON.parse(String(form.get('dates') ?? '[]'));
+    } catch {
+      return sendJson(res, 422, { detail: '`dates` must be a JSON array.' });
+    }
+    if (!Array.isArray(dates) || !form.get('file')) {
+      return sendJson(res, 422, { detail: 'Both `file` and `dates` are required.' });
+    }
+    sendJson(res, 200, { totalCost: Math.round(dates.length * MOCK_FARE_PER_DAY * 100) / 100 });
+  },
+  '/api/feedback': (form, res) => {
+    const rating = form.get('rating');
+    if (!form.get('id') || (rating !== 'up' && rating !== 'down')) {
+      return sendJson(res, 422, { detail: '`id` and a `rating` of up or down are required.' });
+    }
+    sendJson(res, 200, { ok: true });
+  },
+  '/api/chat': (form, res) => {
+    const message = form.get('message');
+    if (typeof message !== 'string' || !message) {
+      return sendJson(res, 422, { detail: '`message` is required.' });
+    }
+    const files = form.getAll('files').filter((file): file is File => file instanceof File);
+    if (files.length === 0) {
+      return sendJson(res, 422, { detail: 'At least one file is required.' });
+    }
+    const sources = files.map(file => file.name.toLowerCase().endsWith('.pdf')
+      ? { documentName: file.name, page: 1, snippet: 'Mock citation from the first page.', score: 0.82 }
+      : { documentName: file.name, rows: { start: 2, end: 4 }, snippet: 'Mock citation covering rows 2 to 4.', score: 0.82 });
+    const actions = mockActions(message);
+    return actions.length > 0
+      ? streamAnswer(res, MOCK_ACTION_ANSWER, message, [], actions)
+      : streamAnswer(res, MOCK_CHAT_ANSWER, message, sources);
+  },
+};
+
+export const mockApiPlugin = (): Plugin => ({
+  name: 'mock-api',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      const path = req.url?.split('?')[0] ?? '';
+      const handler = routes[path];
+      if (!handler) return next();
+      if (req.method !== 'POST') return sendJson(res, 405, { detail: 'Method not allowed.' });
+
+      try {
+        const form = await readForm(req);
+        await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+        await handler(form, res);
+      } catch (error) {
+        server.config.logger.error(`[mock-api] ${String(error)}`);
+        sendJson(res, 500, { detail: 'Mock server error.' });
+      }
+    });
+  },
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, streamChatMessage } from './api';
+
+const encoder = new TextEncoder();
+
+interface StubStream {
+  send: (chunk: string | Uint8Array) => void;
+  close: () => void;
+  fail: () => void;
+}
+
+/** Answers the next fetch with a stream the test writes to. */
+const stubStream = (contentType = 'text/event-stream'): StubStream => {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    start: c => {
+      controller = c;
+    },
+    cancel: () => {
+      cancelled = true;
+    },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status: 200, headers: { 'Content-Type': contentType } })));
+  return {
+    // Like a server, carries on writing after the client has hung up.
+    send: chunk => {
+      if (!cancelled) controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+    },
+    close: () => controller.close(),
+    fail: () => controller.error(new TypeError('network error')),
+  };
+};
+
+const token = (text: string) => `event: token\ndata: ${JSON.stringify({ text })}\n\n`;
+
+const ask = (handlers: Partial<Parameters<typeof streamChatMessage>[1]> = {}) => {
+  const tokens: string[] = [];
+  const answer = streamChatMessage({ message: 'How much?', files: [] }, { onToken: text => tokens.push(text), ...handlers });
+  return { answer, tokens };
+};
+
+// Lets the client read what has been written so far.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the stream to fail.');
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamChatMessage', () => {
+  it('streams tokens and resolves with the answer on done', async () => {
+    const stream = stubStream();
+    const onTrace = vi.fn();
+    const { answer, tokens } = ask({ onTrace });
+    stream.send(token('Hello') + token(' there'));
+    stream.send('event: done\ndata: {"traceId":"trace-1"}\n\n');
+    stream.close();
+    await expect(answer).resolves.toBe('Hello there');
+    expect(tokens).toEqual(['Hello', ' there']);
+    expect(onTrace).toHaveBeenCalledWith('trace-1');
+  });
+
+  it('ignores events it does not know', async () => {
+    const stream = stubStream();
+    const { answer } = ask();
+    stream.send(token('Yes'));
+    stream.send('event: progress\ndata: {"text":"thinking..."}\n\n');
+    stream.send('event: done\ndata: {}\n\n');
+    stream.close();
+    await expect(answer).resolves.toBe('Yes');
+  });
+
+  it('keeps multi-byte characters split across chunks', async () => {
+    const stream = stubStream('text/plain');
+    const { answer } = ask();
+    const bytes = encoder.encode('£4.50');
+    stream.send(bytes.slice(0, 1));
+    stream.send(bytes.slice(1));
+    stream.close();
+    await expect(answer).resolves.toBe('£4.50');
+  });
+
+  it('fails with the server\'s message on an error event mid-stream', async () => {
+    const stream = stubStream();
+    const { answer, tokens } = ask();
+    stream.send(token('Partial'));
+    stream.send('event: error\ndata: {"detail":"Model overloaded"}\n\n');
+    const error = await rejection(answer);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'interrupted', message: 'Model overloaded' });
+    expect(tokens).toEqual(['Partial']);
+  });
+
+  it('reports a connection that drops mid-stream', async () => {
+    const stream = stubStream();
+    const { answer, tokens } = ask();
+    stream.send(token('Half an'));
+    await flush();
+    stream.fail();
+    await expect(rejection(answer)).resolves.toMatchObject({ kind: 'interrupted' });
+    expect(tokens).toEqual(['Half an']);
+  });
+
+  it('reports a stream that ends without done', async () => {
+    const stream = stubStream();
+    const { answer } = ask();
+    stream.send(token('Cut'));
+    stream.close();
+    await expect(rejection(answer)).resolves.toMatchObject({ kind: 'interrupted' });
+  });
+
+  it('stops reading when cancelled, keeping the tokens so far', async () => {
+    const stream = stubStream();
+    const controller = new AbortController();
+    const { answer, tokens } = ask({ signal: controller.signal });
+    const failure = rejection(answer);
+    stream.send(token('Before stop'));
+    await flush();
+    controller.abort();
+    stream.send(token('after stop'));
+    await flush();
+    await expect(failure).resolves.toMatchObject({ kind: 'aborted' });
+    expect(tokens).toEqual(['Before stop']);
+  });
+});
@@ -0,0 +1,293 @@
+import { SseParser } from './sse';
+import { CALCULATOR_ACTION_TYPES, parseActionEvent } from './calculatorActions';
+import type {
+  ApiErrorKind,
+  ChatAction,
+  ChatRequest,
+  ChatSource,
+  FeedbackRequest,
+  TransportCalculateRequest,
+  TransportCalculateResponse,
+} from '../types';
+
+const BASE_URL = (process.env.BACKEND_URL || '').replace(/\/$/, '');
+// The mock dev server answers on its own origin, so an empty URL is fine there.
+export const isBackendConfigured = BASE_URL !== '' || import.meta.env.MODE === 'mock';
+const DEFAULT_TIMEOUT_MS = 30_000;
+// How long a stream may go quiet before we give up on it.
+const STREAM_IDLE_TIMEOUT_MS = 45_000;
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+interface RequestOptions {
+  body: FormData;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+const readErrorDetail = async (response: Response) => {
+  try {
+    const data = await response.json();
+    if (typeof data?.detail === 'string') return data.detail;
+    if (typeof data?.message === 'string') return data.message;
+  } catch {
+    // Not JSON, fall back to the status text below.
+  }
+  return response.statusText || `Request failed with status ${response.status}`;
+};
+
+/**
+ * POSTs to the backend and returns the raw response once it is known to be OK.
+ * Aborts after `timeoutMs`, or as soon as the caller's signal fires, and maps
+ * every failure mode onto an ApiError so components only deal with one type.
+ */
+export async function postForm(path: string, { body, signal, headers, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  try {
+    if (signal?.aborted) throw new ApiError('aborted', 'Request was cancelled.');
+
+    let response: Response;
+    try {
+      response = await fetch(`${BASE_URL}${path}`, { method: 'POST', body, headers, signal: controller.signal });
+    } catch {
+      if (timedOut) throw new ApiError('timeout', 'The server took too long to respond.');
+      if (controller.signal.aborted) throw new ApiError('aborted', 'Request was cancelled.');
+      throw new ApiError('network', 'Could not reach the server. Check your connection and try again.');
+    }
+
+    if (!response.ok) {
+      throw new ApiError('http', await readErrorDetail(response), response.status);
+    }
+    return response;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+async function postJson<T>(path: string, options: RequestOptions, isValid: (data: unknown) => data is T): Promise<T> {
+  const response = await postForm(path, options);
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ApiError('invalid-response', 'The server returned an unreadable response.');
+  }
+  if (!isValid(data)) {
+    throw new ApiError('invalid-response', 'The server returned an unexpected response.');
+  }
+  return data;
+}
+
+const isRecord = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null;
+
+const isCalculateResponse = (data: unknown): data is TransportCalculateResponse =>
+  isRecord(data) && typeof data.totalCost === 'number' && Number.isFinite(data.totalCost);
+
+export const calculateTransport = (request: TransportCalculateRequest, signal?: AbortSignal) => {
+  const formData = new FormData();
+  formData.append('file', request.file);
+  formData.append('dates', JSON.stringify(request.dates));
+  return postJson('/api/transport/calculate', { body: formData, signal }, isCalculateResponse);
+};
+
+const parseJsonField = (data: string, field: string): string | null => {
+  try {
+    const parsed = JSON.parse(data);
+    return isRecord(parsed) && typeof parsed[field] === 'string' ? parsed[field] : null;
+  } catch {
+    return null;
+  }
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const toChatSource = (data: unknown): ChatSource | null => {
+  if (!isRecord(data) || typeof data.documentName !== 'string' || typeof data.snippet !== 'string') return null;
+  const source: ChatSource = { documentName: data.documentName, snippet: data.snippet };
+  if (isPositiveInteger(data.page)) source.page = data.page;
+  if (isRecord(data.rows) && isPositiveInteger(data.rows.start) && isPositiveInteger(data.rows.end)) {
+    source.rows = { start: data.rows.start, end: Math.max(data.rows.start, data.rows.end) };
+  }
+  if (typeof data.score === 'number' && Number.isFinite(data.score)) source.score = data.score;
+  return source;
+};
+
+/** Reads a `sources` event, skipping entries that don't have the expected shape. */
+const parseSources = (data: string): ChatSource[] => {
+  try {
+    const parsed = JSON.parse(data);
+    const list = isRecord(parsed) && Array.isArray(parsed.sources) ? parsed.sources : [];
+    return list.map(toChatSource).filter((source): source is ChatSource => source !== null);
+  } catch {
+    return [];
+  }
+};
+
+interface StreamHandlers {
+  signal?: AbortSignal;
+  onToken: (text: string) => void;
+  onSources?: (sources: ChatSource[]) => void;
+  onActions?: (actions: ChatAction[]) => void;
+  onTrace?: (traceId: string) => void;
+}
+
+/**
+ * Streams the assistant's answer, calling `onToken` with each piece of text
+ * as it arrives, and resolves with the full answer. The backend may reply
+ * with Server-Sent Events (`token`, `sources`, `action`, `done` and `error`
+ * events) or with a plain chunked text body. An SSE stream that closes before `done`
+ * was cut off, and is reported as an `interrupted` ApiError.
+ */
+export async function streamChatMessage(
+  request: ChatRequest,
+  { signal, onToken, onSources, onActions, onTrace }: StreamHandlers,
+): Promise<string> {
+  const formData = new FormData();
+  for (const file of request.files) formData.append('files', file);
+  formData.append('message', request.message);
+  if (request.context && request.context.length > 0) {
+    const context = request.context.map(({ documentName, text, page, rows, score }) => ({ documentName, text, page, rows, score }));
+    formData.append('context', JSON.stringify(context));
+  }
+  if (request.history && request.history.length > 0) {
+    formData.append('history', JSON.stringify(request.history));
+  }
+  // Tells the backend which calculator actions it may propose.
+  formData.append('actions', JSON.stringify(CALCULATOR_ACTION_TYPES));
+  const response = await postForm('/api/chat', {
+    body: formData,
+    signal,
+    timeoutMs: 60_000,
+    headers: { Accept: 'text/event-stream, text/plain' },
+  });
+  if (!response.body) throw new ApiError('invalid-response', 'The server returned an empty response.');
+  // The trace id may come as a header, or on the `done` event once the run finishes.
+  const traceHeader = response.headers.get('X-Trace-Id');
+  if (traceHeader) onTrace?.(traceHeader);
+
+  const isSse = (response.headers.get('Content-Type') ?? '').includes('text/event-stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SseParser();
+  let answer = '';
+  let finished = false;
+  let readFailed = false;
+  let idle = false;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const cancel = () => void reader.cancel().catch(() => undefined);
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      idle = true;
+      cancel();
+    }, STREAM_IDLE_TIMEOUT_MS);
+  };
+  signal?.addEventListener('abort', cancel);
+
+  const emit = (text: string) => {
+    if (!text) return;
+    answer += text;
+    onToken(text);
+  };
+
+  const handleText = (text: string) => {
+    if (!isSse) {
+      emit(text);
+      return;
+    }
+    for (const event of parser.push(text)) {
+      if (event.event === 'done') {
+        finished = true;
+        const traceId = parseJsonField(event.data, 'traceId');
+        if (traceId) onTrace?.(traceId);
+      } else if (event.event === 'sources') {
+        onSources?.(parseSources(event.data));
+      } else if (event.event === 'action') {
+        onActions?.(parseActionEvent(event.data));
+      } else if (event.event === 'error') {
+        throw new ApiError('interrupted', parseJsonField(event.data, 'detail') ?? 'The assistant stopped with an error.');
+      } else if (event.event === 'token' || event.event === 'message') {
+        emit(parseJsonField(event.data, 'text') ?? event.data);
+      }
+      // Anything else is an event this client doesn't know yet, not answer text.
+    }
+  };
+
+  try {
+    resetIdleTimer();
+    while (!finished) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch {
+        readFailed = true;
+        break;
+      }
+      if (chunk.done) {
+        // Whatever the decoder held back at the end of the body.
+        handleText(decoder.decode());
+        break;
+      }
+      resetIdleTimer();
+      handleText(decoder.decode(chunk.value, { stream: true }));
+    }
+
+    if (signal?.aborted) throw new ApiError('aborted', 'Request was cancelled.');
+    if (idle) throw new ApiError('timeout', 'The answer stopped arriving.');
+    if (readFailed || (isSse && !finished)) throw new ApiError('interrupted', 'The connection dropped before the answer finished.');
+    return answer;
+  } finally {
+    clearTimeout(idleTimer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+export const sendFeedback = async (feedback: FeedbackRequest, signal?: AbortSignal): Promise<void> => {
+  const formData = new FormData();
+  formData.append('id', feedback.id);
+  if (feedback.traceId) formData.append('traceId', feedback.traceId);
+  formData.append('messageId', feedback.messageId);
+  formData.append('rating', feedback.rating);
+  if (feedback.category) formData.append('category', feedback.category);
+  if (feedback.comment) formData.append('comment', feedback.comment);
+  formData.append('createdAt', feedback.createdAt);
+  await postForm('/api/feedback', { body: formData, signal });
+};
+
+export const isAbortError = (error: unknown) => error instanceof ApiError && error.kind === 'aborted';
+
+/** Turns any thrown value into a sentence suitable for a toast. */
+export const describeApiError = (error: unknown, fallback: string) => {
+  if (!(error instanceof ApiError)) return fallback;
+  switch (error.kind) {
+    case 'http':
+      if (error.status === 413) return 'That file is too large for the server.';
+      if (error.status !== undefined && error.status >= 500) return `${fallback} The server reported an error (${error.status}).`;
+      return error.message;
+    default:
+      return error.message;
+  }
+};
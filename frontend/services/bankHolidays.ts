@@ -0,0 +1,24 @@
+import bankHolidayData from '../data/bankHolidays.json';
+import type { BankHolidayRegion } from '../types';
+
+// data/bankHolidays.json follows the shape of https://www.gov.uk/bank-holidays.json
+// so it can be refreshed by downloading that file. It is bundled rather
+// than fetched so date selection works offline.
+
+export const BANK_HOLIDAY_REGIONS: { value: BankHolidayRegion; label: string }[] = [
+  { value: 'england-and-wales', label: 'England & Wales' },
+  { value: 'scotland', label: 'Scotland' },
+  { value: 'northern-ireland', label: 'Northern Ireland' },
+];
+
+const byRegion = new Map<BankHolidayRegion, Record<string, string>>();
+
+/** Bank holiday names keyed by YYYY-MM-DD. */
+export const getBankHolidays = (region: BankHolidayRegion): Record<string, string> => {
+  let holidays = byRegion.get(region);
+  if (!holidays) {
+    holidays = Object.fromEntries(bankHolidayData[region].events.map(event => [event.date, event.title]));
+    byRegion.set(region, holidays);
+  }
+  return holidays;
+};
@@ -0,0 +1,105 @@
+import type { DocumentChunk, RetrievedPassage } from '../types';
+
+// Okapi BM25 over document chunks. Small enough to rebuild per session, so
+// nothing is persisted; chunks are added and dropped a document at a time.
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'you', 'your',
+]);
+
+// Folds simple plurals so "refunds" finds "refund"; anything cleverer isn't
+// worth it for the short documents this searches.
+const stem = (term: string) => (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+
+/**
+ * Lower-cases and splits text into searchable terms, dropping common question
+ * words. Decimal points are kept inside numbers so amounts like 8.10 match.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}.]+/u)
+    .map(term => term.replace(/^\.+|\.+$/g, ''))
+    .filter(term => term && !STOP_WORDS.has(term))
+    .map(stem);
+
+interface IndexedChunk {
+  chunk: DocumentChunk;
+  termCounts: Map<string, number>;
+  length: number;
+}
+
+export class Bm25Index {
+  private chunks = new Map<string, IndexedChunk>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  get size() {
+    return this.chunks.size;
+  }
+
+  add(chunks: DocumentChunk[]) {
+    for (const chunk of chunks) {
+      if (this.chunks.has(chunk.id)) this.removeChunk(chunk.id);
+      const terms = tokenize(chunk.text);
+      const termCounts = new Map<string, number>();
+      for (const term of terms) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+      for (const term of termCounts.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+      this.chunks.set(chunk.id, { chunk, termCounts, length: terms.length });
+      this.totalLength += terms.length;
+    }
+  }
+
+  removeDocument(documentId: string) {
+    for (const [id, entry] of this.chunks) {
+      if (entry.chunk.documentId === documentId) this.removeChunk(id);
+    }
+  }
+
+  private removeChunk(id: string) {
+    const entry = this.chunks.get(id);
+    if (!entry) return;
+    for (const term of entry.termCounts.keys()) {
+      const count = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (count > 0) this.documentFrequency.set(term, count);
+      else this.documentFrequency.delete(term);
+    }
+    this.totalLength -= entry.length;
+    this.chunks.delete(id);
+  }
+
+  /**
+   * Returns the best `limit` chunks for the query, optionally only from the
+   * given documents. Chunks sharing no terms with the query are never returned.
+   */
+  search(query: string, { documentIds, limit = 5 }: { documentIds?: string[]; limit?: number } = {}): RetrievedPassage[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.chunks.size === 0) return [];
+    const scope = documentIds ? new Set(documentIds) : null;
+    const averageLength = this.totalLength / this.chunks.size || 1;
+
+    const results: RetrievedPassage[] = [];
+    for (const { chunk, termCounts, length } of this.chunks.values()) {
+      if (scope && !scope.has(chunk.documentId)) continue;
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = termCounts.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (this.chunks.size - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / averageLength)));
+      }
+      if (score > 0) results.push({ ...chunk, score });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
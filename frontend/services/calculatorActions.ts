@@ -0,0 +1,102 @@
+import type { CalculatorAction, CalculatorActionType, ChatAction } from '../types';
+import { fromISODate, toISODate } from '../utils/dates';
+
+// The action protocol between the Document Assistant and the Transport
+// Calculator. The backend proposes actions as `action` SSE events; anything
+// that doesn't validate becomes a rejected card rather than being run.
+
+export const CALCULATOR_ACTION_TYPES: CalculatorActionType[] = ['selectDates', 'deselectDates', 'clearDates', 'calculate', 'exportClaim'];
+
+// A generous year of dates; more than this is almost certainly a mistake.
+const MAX_DATES = 366;
+
+const isRecord = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null;
+
+// Round-tripping rejects impossible dates such as 2025-02-30.
+const isISODate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && toISODate(fromISODate(value)) === value;
+
+const readDates = (value: unknown): string[] | string => {
+  if (!Array.isArray(value) || value.length === 0) return 'No dates were given.';
+  if (value.length > MAX_DATES) return `Too many dates (${value.length}); at most ${MAX_DATES} can be changed at once.`;
+  const invalid = value.filter(date => !isISODate(date));
+  if (invalid.length > 0) return `Not a valid date: ${invalid.slice(0, 3).map(String).join(', ')}.`;
+  return [...new Set(value as string[])].sort();
+};
+
+/** Checks an action sent by the backend; returns the action or why it was refused. */
+export const validateCalculatorAction = (data: unknown): CalculatorAction | string => {
+  if (!isRecord(data) || typeof data.type !== 'string') return 'The action was not in a format this app understands.';
+  switch (data.type) {
+    case 'selectDates':
+    case 'deselectDates': {
+      const dates = readDates(data.dates);
+      return typeof dates === 'string' ? dates : { type: data.type, dates };
+    }
+    case 'clearDates':
+      if (data.month === undefined) return { type: 'clearDates' };
+      return typeof data.month === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(data.month)
+        ? { type: 'clearDates', month: data.month }
+        : `Not a valid month: ${String(data.month)}.`;
+    case 'calculate':
+      return { type: 'calculate' };
+    case 'exportClaim':
+      return data.format === 'csv' || data.format === 'html'
+        ? { type: 'exportClaim', format: data.format }
+        : 'Claims can only be exported as CSV or as a printable report.';
+    default:
+      return `The assistant asked to "${data.type}", which it isn't allowed to do here.`;
+  }
+};
+
+const formatDay = (date: string) =>
+  fromISODate(date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatDates = (dates: string[]) => {
+  const shown = dates.slice(0, 6).map(formatDay).join(', ');
+  return dates.length > 6 ? `${shown} and ${dates.length - 6} more` : shown;
+};
+
+export const describeCalculatorAction = (action: CalculatorAction): string => {
+  switch (action.type) {
+    case 'selectDates':
+      return `Select ${action.dates.length} day${action.dates.length === 1 ? '' : 's'}: ${formatDates(action.dates)}`;
+    case 'deselectDates':
+      return `Deselect ${action.dates.length} day${action.dates.length === 1 ? '' : 's'}: ${formatDates(action.dates)}`;
+    case 'clearDates':
+      return action.month
+        ? `Clear the selected days in ${fromISODate(`${action.month}-01`).toLocaleDateString('en-GB', { month: 'long', year: 'numeric' })}`
+        : 'Clear every selected day';
+    case 'calculate':
+      return 'Recalculate the transport cost';
+    case 'exportClaim':
+      return action.format === 'csv' ? 'Download the expense claim as CSV' : 'Open the printable expense claim';
+  }
+};
+
+/**
+ * Reads an `action` event, which carries one action or a list of them, and
+ * turns each into a card. Invalid entries are kept as rejected cards so the
+ * user can see the assistant tried something it can't do.
+ */
+export const parseActionEvent = (data: string): ChatAction[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return [{ id: crypto.randomUUID(), action: null, description: 'Unreadable action', status: 'rejected', result: 'The action could not be read.' }];
+  }
+  const list = isRecord(parsed) && Array.isArray(parsed.actions) ? parsed.actions
+    : isRecord(parsed) && isRecord(parsed.action) ? [parsed.action]
+    : [parsed];
+  return list.map(entry => {
+    const action = validateCalculatorAction(entry);
+    if (typeof action === 'string') {
+      const type = isRecord(entry) && typeof entry.type === 'string' ? entry.type : 'unknown';
+      const description = (CALCULATOR_ACTION_TYPES as string[]).includes(type) ? `Invalid ${type} action` : `Unsupported action: ${type}`;
+      return { id: crypto.randomUUID(), action: null, description, status: 'rejected', result: action };
+    }
+    return { id: crypto.randomUUID(), action, description: describeCalculatorAction(action), status: 'pending' };
+  });
+};
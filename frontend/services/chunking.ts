@@ -0,0 +1,80 @@
+import type { DocumentChunk } from '../types';
+import { splitCsv } from './tflCsv';
+
+// Splits extracted document text into passages small enough to rank and
+// quote. CSV chunks keep their line numbers and PDF chunks their page, so a
+// passage can be cited the same way the backend cites its sources.
+
+const CSV_ROWS_PER_CHUNK = 8;
+const WORDS_PER_CHUNK = 120;
+const WORD_OVERLAP = 20;
+
+type ChunkLocation = Pick<DocumentChunk, 'page' | 'rows'>;
+
+const chunkCsv = (text: string): { text: string; location: ChunkLocation }[] => {
+  const [header = [], ...rows] = splitCsv(text);
+  const chunks = [];
+  for (let i = 0; i < rows.length; i += CSV_ROWS_PER_CHUNK) {
+    const group = rows.slice(i, i + CSV_ROWS_PER_CHUNK);
+    // Label every cell with its column so a question like "charge on 3 Oct"
+    // matches on the header words as well as the values.
+    const lines = group.map(cells =>
+      cells.map((cell, column) => (header[column] ? `${header[column]}: ${cell}` : cell)).filter(Boolean).join('; '),
+    );
+    chunks.push({
+      text: lines.join('\n'),
+      // Line 1 is the header, so the first data row is line 2.
+      location: { rows: { start: i + 2, end: i + 1 + group.length } },
+    });
+  }
+  return chunks;
+};
+
+/** Groups paragraphs into chunks of about WORDS_PER_CHUNK words, splitting long ones with some overlap. */
+const chunkProse = (text: string): string[] => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) chunks.push(current.join(' '));
+    current = [];
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+    if (current.length + words.length <= WORDS_PER_CHUNK) {
+      current.push(...words);
+      continue;
+    }
+    flush();
+    if (words.length <= WORDS_PER_CHUNK) {
+      current.push(...words);
+      continue;
+    }
+    for (let start = 0; start < words.length; start += WORDS_PER_CHUNK - WORD_OVERLAP) {
+      chunks.push(words.slice(start, start + WORDS_PER_CHUNK).join(' '));
+      if (start + WORDS_PER_CHUNK >= words.length) break;
+    }
+  }
+  flush();
+  return chunks;
+};
+
+/**
+ * Chunks a document's extracted text. PDF text is expected to separate pages
+ * with form feeds, as `extractDocumentText` produces.
+ */
+export const chunkDocument = (documentId: string, documentName: string, text: string): DocumentChunk[] => {
+  const name = documentName.toLowerCase();
+  let pieces: { text: string; location: ChunkLocation }[];
+  if (name.endsWith('.csv')) {
+    pieces = chunkCsv(text);
+  } else if (name.endsWith('.pdf')) {
+    pieces = text.split('\f').flatMap((page, i) => chunkProse(page).map(chunk => ({ text: chunk, location: { page: i + 1 } })));
+  } else {
+    pieces = chunkProse(text).map(chunk => ({ text: chunk, location: {} }));
+  }
+  return pieces
+    .filter(piece => piece.text.trim())
+    .map((piece, i) => ({ id: `${documentId}:${i}`, documentId, documentName, text: piece.text, ...piece.location }));
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { claimToCsv } from './claimExport';
+import type { ExpenseClaim, Journey } from '../types';
+
+const journey = (description: string): Journey => ({
+  date: '2026-10-06',
+  startTime: '08:10',
+  endTime: '08:40',
+  description,
+  charge: 2.8,
+  credit: 0,
+  balance: null,
+  note: '',
+  sourceRow: 1,
+});
+
+const claimWith = (descriptions: string[]): ExpenseClaim => ({
+  claimant: 'A Claimant',
+  periodStart: '2026-10-06',
+  periodEnd: '2026-10-06',
+  invoiceName: 'october.csv',
+  fareOptions: { zones: '1-2' },
+  generatedAt: '2026-10-07T09:00:00.000Z',
+  days: [{ date: '2026-10-06', journeys: descriptions.map(journey), charged: 2.8, capAdjustment: 0, claimed: 2.8 }],
+  totalCharged: 2.8,
+  totalCapAdjustment: 0,
+  totalClaimed: 2.8,
+});
+
+describe('claimToCsv', () => {
+  it('writes a journey row, a day total and a claim total', () => {
+    const lines = claimToCsv(claimWith(['Bank to Stratford'])).trimEnd().split('\r\n');
+    expect(lines.slice(1)).toEqual([
+      'A Claimant,2026-10-06 to 2026-10-06,2026-10-06,Journey,08:10,08:40,Bank to Stratford,2.80,,',
+      'A Claimant,2026-10-06 to 2026-10-06,2026-10-06,Day total,,,,2.80,0.00,2.80',
+      'A Claimant,2026-10-06 to 2026-10-06,,Claim total,,,,2.80,0.00,2.80',
+    ]);
+  });
+
+  it.each([
+    ['=HYPERLINK("x")', `"'=HYPERLINK(""x"")"`],
+    ['+1', `'+1`],
+    ['-1', `'-1`],
+    ['@SUM(A1)', `'@SUM(A1)`],
+    ['\t=1+1', `'\t=1+1`],
+    ['\r=1+1', `"'\r=1+1"`],
+  ])('neutralises %j so spreadsheets do not read it as a formula', (description, cell) => {
+    expect(claimToCsv(claimWith([description]))).toContain(`,08:40,${cell},2.80,`);
+  });
+});
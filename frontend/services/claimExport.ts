@@ -0,0 +1,168 @@
+import type { ClaimDay, ExpenseClaim, FareBreakdown, FareOptions } from '../types';
+import { downloadFile, escapeHtml } from '../utils/download';
+import { fromISODate } from '../utils/dates';
+
+interface ClaimInput {
+  claimant: string;
+  dates: string[]; // YYYY-MM-DD, the days being claimed
+  breakdown: FareBreakdown | null;
+  totalCost: number;
+  invoiceName: string;
+  fareOptions: FareOptions | null;
+}
+
+const roundPence = (amount: number) => Math.round(amount * 100) / 100;
+
+const money = (amount: number | null) => (amount === null ? '' : amount.toFixed(2));
+
+/**
+ * Assembles a claim from the calculator's result. Without a local fare
+ * breakdown (the backend did the calculation) only the dates and the
+ * backend's total are known.
+ */
+export const buildClaim = ({ claimant, dates, breakdown, totalCost, invoiceName, fareOptions }: ClaimInput): ExpenseClaim => {
+  const sorted = [...dates].sort();
+  const days: ClaimDay[] = sorted.map(date => {
+    if (!breakdown) return { date, journeys: [], charged: null, capAdjustment: null, claimed: null };
+    const day = breakdown.days[date];
+    if (!day) return { date, journeys: [], charged: 0, capAdjustment: 0, claimed: 0 };
+    return {
+      date,
+      journeys: day.journeys,
+      charged: day.charged,
+      capAdjustment: roundPence(day.charged - day.cost),
+      claimed: day.cost,
+    };
+  });
+
+  const sum = (pick: (day: ClaimDay) => number | null) =>
+    breakdown ? roundPence(days.reduce((total, day) => total + (pick(day) ?? 0), 0)) : null;
+
+  return {
+    claimant,
+    periodStart: sorted[0] ?? '',
+    periodEnd: sorted[sorted.length - 1] ?? '',
+    invoiceName,
+    fareOptions: breakdown ? fareOptions : null,
+    generatedAt: new Date().toISOString(),
+    days,
+    totalCharged: sum(day => day.charged),
+    totalCapAdjustment: sum(day => day.capAdjustment),
+    totalClaimed: sum(day => day.claimed) ?? totalCost,
+  };
+};
+
+export const claimFileName = (claim: ExpenseClaim, extension: string) => {
+  const who = claim.claimant.trim().replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'transport';
+  return `${who}-claim-${claim.periodStart}-to-${claim.periodEnd}.${extension}`;
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  // Quote anything with separators, and neutralise leading formula
+  // characters (and the tab or carriage return that can hide them) so
+  // spreadsheets don't evaluate journey names.
+  const safe = /^[=+\-@\t\r]/.test(text) && typeof value === 'string' ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const CSV_HEADER = ['Claimant', 'Period', 'Date', 'Type', 'Start time', 'End time', 'Journey', 'Fare charged', 'Cap adjustment', 'Amount claimed'];
+
+/** One row per journey, a daily total row per day and a final total row. */
+export const claimToCsv = (claim: ExpenseClaim) => {
+  const period = `${claim.periodStart} to ${claim.periodEnd}`;
+  const rows: (string | number)[][] = [CSV_HEADER];
+  for (const day of claim.days) {
+    for (const journey of day.journeys) {
+      rows.push([claim.claimant, period, day.date, 'Journey', journey.startTime ?? '', journey.endTime ?? '', journey.description, money(journey.charge), '', '']);
+    }
+    rows.push([claim.claimant, period, day.date, 'Day total', '', '', '', money(day.charged), money(day.capAdjustment), money(day.claimed)]);
+  }
+  rows.push([claim.claimant, period, '', 'Claim total', '', '', '', money(claim.totalCharged), money(claim.totalCapAdjustment), money(claim.totalClaimed)]);
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const formatDate = (date: string) =>
+  fromISODate(date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+/** A self-contained HTML report that opens the print dialog, for saving as PDF. */
+export const claimToHtml = (claim: ExpenseClaim) => {
+  const gbp = (amount: number | null) => (amount === null ? '—' : `£${amount.toFixed(2)}`);
+  const rows = claim.days
+    .map(day => {
+      const journeys = day.journeys.length === 0
+        ? '<li class="muted">No journeys listed</li>'
+        : day.journeys
+            .map(j => `<li>${escapeHtml([j.startTime, j.endTime].filter(Boolean).join('–'))} ${escapeHtml(j.description)} <span class="muted">${gbp(j.charge)}</span></li>`)
+            .join('');
+      return `<tr>
+        <td>${escapeHtml(formatDate(day.date))}</td>
+        <td><ul>${journeys}</ul></td>
+        <td class="num">${gbp(day.charged)}</td>
+        <td class="num">${day.capAdjustment ? `−${gbp(day.capAdjustment)}` : gbp(day.capAdjustment)}</td>
+        <td class="num">${gbp(day.claimed)}</td>
+      </tr>`;
+    })
+    .join('');
+  const options = claim.fareOptions
+    ? `Zones ${claim.fareOptions.zones}, Oyster or contactless`
+    : 'Calculated by the backend';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(claimFileName(claim, 'pdf'))}</title>
+<style>
+  body { font-family: 'Inter', system-ui, sans-serif; color: #1f2937; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 20px; color: #4f46e5; margin-bottom: 0.25rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; margin: 1rem 0; }
+  dt { font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  ul { margin: 0; padding-left: 1rem; }
+  .num { text-align: right; white-space: nowrap; }
+  .muted { color: #6b7280; }
+  tfoot td { font-weight: 700; border-top: 2px solid #1f2937; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Work Transport Expense Claim</h1>
+<dl>
+  <dt>Claimant</dt><dd>${escapeHtml(claim.claimant || '—')}</dd>
+  <dt>Period</dt><dd>${escapeHtml(formatDate(claim.periodStart))} – ${escapeHtml(formatDate(claim.periodEnd))}</dd>
+  <dt>Days claimed</dt><dd>${claim.days.length}</dd>
+  <dt>Invoice</dt><dd>${escapeHtml(claim.invoiceName)}</dd>
+  <dt>Fares</dt><dd>${escapeHtml(options)}</dd>
+  <dt>Generated</dt><dd>${escapeHtml(new Date(claim.generatedAt).toLocaleString('en-GB'))}</dd>
+</dl>
+<table>
+  <thead><tr><th>Date</th><th>Journeys</th><th class="num">Charged</th><th class="num">Cap adjustment</th><th class="num">Claimed</th></tr></thead>
+  <tbody>${rows}</tbody>
+  <tfoot><tr><td colspan="2">Total</td><td class="num">${gbp(claim.totalCharged)}</td><td class="num">${claim.totalCapAdjustment ? `−${gbp(claim.totalCapAdjustment)}` : gbp(claim.totalCapAdjustment)}</td><td class="num">${gbp(claim.totalClaimed)}</td></tr></tfoot>
+</table>
+<script>window.addEventListener('load', function () { window.print(); });</script>
+</body>
+</html>`;
+};
+
+export const downloadClaimCsv = (claim: ExpenseClaim) => {
+  downloadFile(claimToCsv(claim), claimFileName(claim, 'csv'), 'text/csv;charset=utf-8');
+};
+
+/**
+ * Opens the printable report in a new tab. Returns false when pop-ups are
+ * blocked, in which case the report is downloaded instead.
+ */
+export const openClaimReport = (claim: ExpenseClaim): boolean => {
+  const url = URL.createObjectURL(new Blob([claimToHtml(claim)], { type: 'text/html' }));
+  const reportWindow = window.open(url, '_blank');
+  if (!reportWindow) {
+    // Pop-ups blocked: save the report so it can be opened and printed.
+    downloadFile(claimToHtml(claim), claimFileName(claim, 'html'), 'text/html');
+  }
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return reportWindow !== null;
+};
@@ -0,0 +1,144 @@
+import type { ClaimRecord, ClaimStatus, FareBreakdown } from '../types';
+import { toISODate } from '../utils/dates';
+
+// Summaries of the claims history for the dashboard: what each month and
+// year came to, what is still waiting to be paid back, and months with no
+// claim at all. Amounts are attributed to the months the travel happened in,
+// not when the claim was calculated.
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  calculated: 'Not submitted',
+  submitted: 'Submitted',
+  reimbursed: 'Reimbursed',
+};
+
+export const CLAIM_STATUSES: ClaimStatus[] = ['calculated', 'submitted', 'reimbursed'];
+
+interface ClaimInput {
+  dates: string[]; // YYYY-MM-DD, the days claimed
+  totalCost: number;
+  breakdown: FareBreakdown | null;
+  invoiceName: string;
+}
+
+export interface MonthTotal {
+  month: string; // YYYY-MM
+  total: number;
+  byStatus: Record<ClaimStatus, number>;
+}
+
+export interface YearTotal {
+  year: string;
+  total: number;
+  reimbursed: number;
+  outstanding: number; // submitted but not yet paid back
+}
+
+const roundPence = (amount: number) => Math.round(amount * 100) / 100;
+
+const sum = (amounts: number[]) => roundPence(amounts.reduce((total, amount) => total + amount, 0));
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+// Without a fare breakdown (the backend did the calculation) only the total
+// is known, so it is shared out by the number of days in each month.
+const splitByMonth = (dates: string[], totalCost: number, breakdown: FareBreakdown | null) => {
+  const costs: Record<string, number> = {};
+  if (breakdown) {
+    for (const date of dates) costs[monthOf(date)] = roundPence((costs[monthOf(date)] ?? 0) + (breakdown.days[date]?.cost ?? 0));
+    return costs;
+  }
+  const months = [...new Set(dates.map(monthOf))];
+  let remaining = totalCost;
+  months.forEach((month, i) => {
+    const share = i === months.length - 1
+      ? roundPence(remaining)
+      : roundPence(totalCost * dates.filter(date => monthOf(date) === month).length / dates.length);
+    costs[month] = share;
+    remaining -= share;
+  });
+  return costs;
+};
+
+/** A history record for a calculation that has just finished. */
+export const buildClaimRecord = ({ dates, totalCost, breakdown, invoiceName }: ClaimInput, now = new Date()): ClaimRecord => {
+  const sorted = [...new Set(dates)].sort();
+  return {
+    id: crypto.randomUUID(),
+    calculatedAt: now.toISOString(),
+    periodStart: sorted[0] ?? '',
+    periodEnd: sorted[sorted.length - 1] ?? '',
+    dates: sorted,
+    totalCost,
+    monthlyCosts: splitByMonth(sorted, totalCost, breakdown),
+    invoiceName,
+    status: 'calculated',
+    submittedAt: null,
+    reimbursedAt: null,
+  };
+};
+
+/** The claim moved to `status`, keeping when it was first submitted if it already had been. */
+export const withStatus = (claim: ClaimRecord, status: ClaimStatus, now = new Date()): ClaimRecord => {
+  const at = now.toISOString();
+  switch (status) {
+    case 'calculated':
+      return { ...claim, status, submittedAt: null, reimbursedAt: null };
+    case 'submitted':
+      return { ...claim, status, submittedAt: claim.submittedAt ?? at, reimbursedAt: null };
+    case 'reimbursed':
+      return { ...claim, status, submittedAt: claim.submittedAt ?? at, reimbursedAt: claim.reimbursedAt ?? at };
+  }
+};
+
+/** `count` months up to and including the month of `today`, oldest first. */
+export const recentMonths = (count: number, today = new Date()): string[] =>
+  Array.from({ length: count }, (_, i) => monthOf(toISODate(new Date(today.getFullYear(), today.getMonth() - (count - 1 - i), 1))));
+
+export const monthlyTotals = (claims: ClaimRecord[], months: string[]): MonthTotal[] =>
+  months.map(month => {
+    const byStatus: Record<ClaimStatus, number> = { calculated: 0, submitted: 0, reimbursed: 0 };
+    for (const claim of claims) byStatus[claim.status] = roundPence(byStatus[claim.status] + (claim.monthlyCosts[month] ?? 0));
+    return { month, total: sum(Object.values(byStatus)), byStatus };
+  });
+
+/** Totals per year of travel, latest first. */
+export const yearlyTotals = (claims: ClaimRecord[]): YearTotal[] => {
+  const years = [...new Set(claims.flatMap(claim => Object.keys(claim.monthlyCosts).map(month => month.slice(0, 4))))].sort().reverse();
+  return years.map(year => {
+    const inYear = (claim: ClaimRecord) =>
+      sum(Object.entries(claim.monthlyCosts).filter(([month]) => month.startsWith(`${year}-`)).map(([, cost]) => cost));
+    return {
+      year,
+      total: sum(claims.map(inYear)),
+      reimbursed: sum(claims.filter(claim => claim.status === 'reimbursed').map(inYear)),
+      outstanding: sum(claims.filter(claim => claim.status === 'submitted').map(inYear)),
+    };
+  });
+};
+
+export const totalOf = (claims: ClaimRecord[]) => sum(claims.map(claim => claim.totalCost));
+
+/**
+ * Months with no claimed days, from the first month in the history up to
+ * last month. The current month is left out since it may not be over yet.
+ */
+export const unclaimedMonths = (claims: ClaimRecord[], today = new Date()): string[] => {
+  const claimed = new Set(claims.flatMap(claim => claim.dates.map(monthOf)));
+  const first = [...claimed].sort()[0];
+  if (!first) return [];
+  const months: string[] = [];
+  const cursor = new Date(Number(first.slice(0, 4)), Number(first.slice(5, 7)) - 1, 1);
+  const thisMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+  for (; cursor < thisMonth; cursor.setMonth(cursor.getMonth() + 1)) {
+    const month = monthOf(toISODate(cursor));
+    if (!claimed.has(month)) months.push(month);
+  }
+  return months;
+};
+
+/** How many of the claim's days are also in another claim, which would count them twice. */
+export const sharedDays = (claim: ClaimRecord, claims: ClaimRecord[]) => {
+  const others = new Set(claims.filter(other => other.id !== claim.id).flatMap(other => other.dates));
+  return claim.dates.filter(date => others.has(date)).length;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { decodeClaimLink, encodeClaimLink } from './claimLink';
+import type { ClaimLink } from '../types';
+
+const link = (overrides: Partial<ClaimLink> = {}): ClaimLink => ({
+  month: '2026-10',
+  dates: [],
+  fareOptions: {},
+  hasInvoice: false,
+  ...overrides,
+});
+
+describe('claim links', () => {
+  it('writes each month of selected days as a base 36 bitset', () => {
+    const hash = encodeClaimLink(link({ dates: ['2026-10-02', '2026-10-01', '2026-11-03'], fareOptions: { zones: '1-3' }, hasInvoice: true }));
+    expect(hash).toBe('v=1&m=2026-10&d=2026-10.3_2026-11.4&z=1-3&inv=1');
+  });
+
+  it('reads back the link it wrote', () => {
+    const original = link({
+      month: '2026-11',
+      dates: ['2026-10-01', '2026-10-31', '2026-11-02', '2026-11-30', '2027-02-28'],
+      fareOptions: { zones: '1-6' },
+      hasInvoice: true,
+    });
+    expect(decodeClaimLink(`#${encodeClaimLink(original)}`)).toEqual(original);
+  });
+
+  it('sorts the days and drops repeats', () => {
+    const decoded = decodeClaimLink(encodeClaimLink(link({ dates: ['2026-10-09', '2026-10-05', '2026-10-09'] })));
+    expect(decoded?.dates).toEqual(['2026-10-05', '2026-10-09']);
+  });
+
+  it('round-trips an empty selection', () => {
+    const hash = encodeClaimLink(link());
+    expect(hash).toBe('v=1&m=2026-10');
+    expect(decodeClaimLink(hash)).toEqual(link());
+  });
+
+  it('is not a claim link without the current version', () => {
+    expect(decodeClaimLink('')).toBeNull();
+    expect(decodeClaimLink('#section-2')).toBeNull();
+    expect(decodeClaimLink('v=2&m=2026-10&d=2026-10.3')).toBeNull();
+  });
+
+  it('drops the parts of a malformed link that make no sense', () => {
+    const decoded = decodeClaimLink('v=1&m=2026-13&d=2026-13.3_2026-10.!!_2026-10.5_2026-02.zik0zj_junk&z=9-9&pay=oyster&inv=yes');
+    expect(decoded).toEqual({
+      month: '2026-02',
+      // Every day of February is set, along with bits for days it doesn't have.
+      dates: [
+        ...Array.from({ length: 28 }, (_, i) => `2026-02-${String(i + 1).padStart(2, '0')}`),
+        '2026-10-01',
+        '2026-10-03',
+      ],
+      fareOptions: {},
+      hasInvoice: false,
+    });
+  });
+});
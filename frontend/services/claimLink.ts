@@ -0,0 +1,73 @@
+import type { ClaimLink, FareOptions } from '../types';
+import { ZONE_BANDS } from './fareEngine';
+
+// Claim periods shared as links, e.g.
+//   #v=1&m=2026-10&d=2026-10.1xsqo_2026-11.7&z=1-3&inv=1
+// Selected days are a bitset per month (bit 0 is the 1st), written in base
+// 36, so a month of office days takes a handful of characters. Everything
+// lives in the URL fragment, which browsers don't send to the server, and
+// documents are only ever recorded as "an invoice was loaded".
+
+const LINK_VERSION = '1';
+const MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+const BITSET = /^[0-9a-z]{1,7}$/;
+
+const daysInMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber, 0).getDate();
+};
+
+const encodeDates = (dates: string[]) => {
+  const bitsets = new Map<string, number>();
+  for (const date of dates) {
+    const month = date.slice(0, 7);
+    bitsets.set(month, (bitsets.get(month) ?? 0) + 2 ** (Number(date.slice(8, 10)) - 1));
+  }
+  return [...bitsets.keys()].sort().map(month => `${month}.${bitsets.get(month)!.toString(36)}`).join('_');
+};
+
+const decodeDates = (value: string) => {
+  const dates: string[] = [];
+  for (const part of value.split('_')) {
+    const [month, bits] = part.split('.');
+    if (!MONTH.test(month ?? '') || !BITSET.test(bits ?? '')) continue;
+    let remaining = parseInt(bits, 36);
+    for (let day = 1; day <= daysInMonth(month) && remaining > 0; day++) {
+      if (remaining % 2 === 1) dates.push(`${month}-${String(day).padStart(2, '0')}`);
+      remaining = Math.floor(remaining / 2);
+    }
+  }
+  return [...new Set(dates)].sort();
+};
+
+/** The URL fragment, without the leading "#", for a claim period. */
+export const encodeClaimLink = (link: ClaimLink): string => {
+  const params = new URLSearchParams({ v: LINK_VERSION, m: link.month });
+  if (link.dates.length > 0) params.set('d', encodeDates([...new Set(link.dates)]));
+  if (link.fareOptions.zones) params.set('z', link.fareOptions.zones);
+  if (link.hasInvoice) params.set('inv', '1');
+  return params.toString();
+};
+
+/**
+ * Reads a claim period from a URL fragment, or null if it isn't one. Links
+ * are typed in and edited by hand, so parts that don't make sense are
+ * dropped rather than rejecting the whole link.
+ */
+export const decodeClaimLink = (hash: string): ClaimLink | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (params.get('v') !== LINK_VERSION) return null;
+
+  const dates = decodeDates(params.get('d') ?? '');
+  const month = params.get('m') ?? '';
+  const fareOptions: Partial<FareOptions> = {};
+  const zones = ZONE_BANDS.find(band => band === params.get('z'));
+  if (zones) fareOptions.zones = zones;
+
+  return {
+    month: MONTH.test(month) ? month : dates[0]?.slice(0, 7) ?? '',
+    dates,
+    fareOptions,
+    hasInvoice: params.get('inv') === '1',
+  };
+};
@@ -0,0 +1,21 @@
+import type { ClaimRecord } from '../types';
+import { requestResult, withStores } from './indexedDb';
+
+// The claims history: one record per completed calculation, kept until the
+// user deletes it.
+
+export const listClaims = (): Promise<ClaimRecord[]> =>
+  withStores(['claims'], 'readonly', async transaction => {
+    const claims = await requestResult(transaction.objectStore('claims').getAll() as IDBRequest<ClaimRecord[]>);
+    return claims.sort((a, b) => b.calculatedAt.localeCompare(a.calculatedAt));
+  });
+
+export const saveClaim = (claim: ClaimRecord): Promise<void> =>
+  withStores(['claims'], 'readwrite', async transaction => {
+    await requestResult(transaction.objectStore('claims').put(claim));
+  });
+
+export const deleteClaim = (id: string): Promise<void> =>
+  withStores(['claims'], 'readwrite', async transaction => {
+    await requestResult(transaction.objectStore('claims').delete(id));
+  });
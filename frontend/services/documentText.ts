@@ -0,0 +1,33 @@
+import { extractDocxText } from './docx';
+import { extractPdfText, PdfExtractionError } from './pdfText';
+import type { PdfProgress } from './pdfText';
+
+export class DocumentTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentTextError';
+  }
+}
+
+/**
+ * Extracts plain text from an uploaded CSV, TXT, PDF or DOCX, in the browser.
+ * PDF pages are separated with form feeds so callers can recover page numbers.
+ */
+export async function extractDocumentText(file: File, signal?: AbortSignal, onProgress?: PdfProgress): Promise<string> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.pdf')) {
+    try {
+      const pages = await extractPdfText(file, signal, onProgress);
+      return pages.map(page => page.lines.join('\n')).join('\f');
+    } catch (error) {
+      if (error instanceof PdfExtractionError) throw new DocumentTextError(error.message);
+      throw error;
+    }
+  }
+  if (name.endsWith('.docx')) {
+    const text = await extractDocxText(file);
+    if (text === null) throw new DocumentTextError('This file could not be opened as a Word document.');
+    return text;
+  }
+  return file.text();
+}
@@ -0,0 +1,74 @@
+// Just enough of the ZIP format to pull word/document.xml out of a .docx,
+// using the browser's DecompressionStream for the deflated entry.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  // The record is 22 bytes plus a comment of up to 64 KiB at the end of the file.
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  return -1;
+};
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZipEntry = async (buffer: ArrayBuffer, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd === -1) return null;
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (entryName === name) {
+      if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) return null;
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/** Returns the body text of a .docx, one paragraph per line, or null if it isn't one. */
+export async function extractDocxText(file: File): Promise<string | null> {
+  const xmlBytes = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  if (!xmlBytes) return null;
+  const xml = new TextDecoder().decode(xmlBytes);
+  const text = xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeEntities(text).replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFares, claimForDates } from './fareEngine';
+import { fareTables } from '../data/fares';
+import type { Journey } from '../types';
+
+const journey = (date: string, startTime: string, charge = 2.8, description = 'Bank to Stratford'): Journey => ({
+  date,
+  startTime,
+  endTime: null,
+  description,
+  charge,
+  credit: 0,
+  balance: null,
+  note: '',
+  sourceRow: 1,
+});
+
+const bus = (date: string, startTime: string) => journey(date, startTime, 1.75, 'Bus journey, route 25');
+
+// Four tube journeys, which go over the zone 1-2 daily cap under either table.
+const busyDay = (date: string) => ['08:00', '12:00', '14:00', '18:00'].map(time => journey(date, time));
+
+const fares = (journeys: Journey[]) => calculateFares(journeys, { zones: '1-2' }, fareTables);
+
+// Monday 5 to Saturday 10 October 2026: five capped office days and a short
+// Saturday trip, which together go over the weekly cap.
+const cappedWeek = [
+  ...['2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09'].flatMap(busyDay),
+  journey('2026-10-10', '11:00', 3),
+];
+
+describe('calculateFares', () => {
+  it('caps each day at the zone cap', () => {
+    const { days } = fares(busyDay('2026-10-06'));
+    expect(days['2026-10-06']).toMatchObject({ charged: 11.2, dailyCap: 8.9, afterDailyCap: 8.9, cost: 8.9, cappedBy: 'daily' });
+  });
+
+  it('uses the bus cap only on days with nothing but buses and trams', () => {
+    const busOnly = ['08:00', '10:00', '12:00', '18:00'].map(time => bus('2026-10-06', time));
+    const mixed = [bus('2026-10-07', '08:00'), bus('2026-10-07', '09:00'), journey('2026-10-07', '17:00'), journey('2026-10-07', '18:00')];
+    const { days } = fares([...busOnly, ...mixed]);
+    expect(days['2026-10-06']).toMatchObject({ charged: 7, dailyCap: 5.25, cost: 5.25 });
+    expect(days['2026-10-07']).toMatchObject({ charged: 9.1, dailyCap: 8.9, cost: 8.9 });
+  });
+
+  it('splits the weekly cap across the week in proportion to each day', () => {
+    const { days, weeks, total } = fares(cappedWeek);
+    expect(weeks).toEqual([
+      {
+        weekStart: '2026-10-05',
+        dates: ['2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09', '2026-10-10'],
+        afterDailyCaps: 47.5,
+        weeklyCap: 44.7,
+        total: 44.7,
+      },
+    ]);
+    expect(days['2026-10-05']).toMatchObject({ cost: 8.38, cappedBy: 'weekly' });
+    // A proportional share would be 2.82; the last day takes the rounding remainder.
+    expect(days['2026-10-10']).toMatchObject({ cost: 2.8, cappedBy: 'weekly' });
+    expect(Object.values(days).reduce((sum, day) => sum + day.cost, 0)).toBeCloseTo(44.7, 10);
+    expect(total).toBe(44.7);
+  });
+
+  it('starts a new week on Monday', () => {
+    const { weeks } = fares([...busyDay('2026-10-11'), ...busyDay('2026-10-12')]);
+    expect(weeks.map(week => [week.weekStart, week.total])).toEqual([
+      ['2026-10-05', 8.9],
+      ['2026-10-12', 8.9],
+    ]);
+  });
+
+  it('counts journeys between midnight and 04:30 towards the previous day', () => {
+    const { days } = fares([journey('2026-10-06', '18:00'), journey('2026-10-07', '00:45'), journey('2026-10-07', '04:30')]);
+    expect(Object.keys(days).sort()).toEqual(['2026-10-06', '2026-10-07']);
+    expect(days['2026-10-06'].journeys.map(j => j.startTime)).toEqual(['18:00', '00:45']);
+    expect(days['2026-10-07'].journeys.map(j => j.startTime)).toEqual(['04:30']);
+  });
+
+  it('takes daily caps from each day but the weekly cap from the Monday when the fares change mid-week', () => {
+    // The 2025 table takes effect on Sunday 2 March.
+    const week = ['2025-02-24', '2025-02-25', '2025-02-26', '2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02'];
+    const { days, weeks } = fares(week.flatMap(busyDay));
+    expect(days['2025-02-24']).toMatchObject({ dailyCap: 8.5, tableVersion: 'tfl-2024-03-03' });
+    expect(days['2025-03-02']).toMatchObject({ dailyCap: 8.9, tableVersion: 'tfl-2025-03-02' });
+    expect(weeks).toMatchObject([{ weekStart: '2025-02-24', afterDailyCaps: 59.9, weeklyCap: 42.7, total: 42.7 }]);
+  });
+});
+
+describe('claimForDates', () => {
+  it('claims the office days’ share of a capped week', () => {
+    const breakdown = fares(cappedWeek);
+    expect(claimForDates(breakdown, ['2026-10-05', '2026-10-07', '2026-10-08'])).toEqual({ cost: 25.14, charged: 33.6 });
+  });
+
+  it('adds nothing for days without journeys', () => {
+    const breakdown = fares(cappedWeek);
+    expect(claimForDates(breakdown, ['2026-10-06', '2026-10-11'])).toEqual({ cost: 8.38, charged: 11.2 });
+  });
+});
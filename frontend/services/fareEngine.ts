@@ -0,0 +1,114 @@
+import type { DayFare, FareBreakdown, FareOptions, FareTable, Journey, WeekFare, ZoneBand } from '../types';
+import { fromISODate, toISODate } from '../utils/dates';
+import { groupJourneysByDate } from './journeys';
+
+export const ZONE_BANDS: ZoneBand[] = ['1-2', '1-3', '1-4', '1-5', '1-6'];
+
+const BUS_OR_TRAM = /\b(bus|tram)\b/i;
+
+const roundPence = (amount: number) => Math.round(amount * 100) / 100;
+
+const shiftDate = (date: string, days: number) => {
+  const d = fromISODate(date);
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+};
+
+export const weekStartOf = (date: string) => {
+  const day = fromISODate(date).getDay();
+  return shiftDate(date, -((day + 6) % 7));
+};
+
+/** The table in force on `date`, falling back to the oldest table for earlier dates. */
+export const fareTableFor = (date: string, tables: FareTable[]): FareTable => {
+  if (tables.length === 0) throw new Error('No fare tables are loaded.');
+  let match = tables[0];
+  for (const table of tables) {
+    if (table.effectiveFrom <= date) match = table;
+  }
+  return match;
+};
+
+/** Journeys that start before the travel-day boundary (04:30) belong to the previous day. */
+export const travelDayOf = (journey: Journey, tables: FareTable[]) => {
+  const { travelDayStartsAt } = fareTableFor(journey.date, tables);
+  if (journey.startTime && journey.startTime < travelDayStartsAt) return shiftDate(journey.date, -1);
+  return journey.date;
+};
+
+/**
+ * Applies daily caps and then Monday–Sunday weekly caps to the journeys'
+ * charges. Each day's `cost` is its share of the week's capped total,
+ * proportional to what it cost after the daily cap, so claiming some days
+ * of a capped week claims a fair fraction of the cap rather than whichever
+ * days TfL happened to charge for. Oyster and contactless share the same
+ * caps, so how the fares were paid doesn't change the result.
+ */
+export const calculateFares = (journeys: Journey[], options: FareOptions, tables: FareTable[]): FareBreakdown => {
+  const chargeable = journeys
+    .filter(journey => journey.charge > 0)
+    .map(journey => ({ ...journey, date: travelDayOf(journey, tables) }));
+
+  const days: Record<string, DayFare> = {};
+  for (const [date, dayJourneys] of groupJourneysByDate(chargeable)) {
+    const table = fareTableFor(date, tables);
+    const busOnly = dayJourneys.every(journey => BUS_OR_TRAM.test(journey.description));
+    const dailyCap = (busOnly ? table.bus : table.zones[options.zones]).daily;
+    const charged = roundPence(dayJourneys.reduce((sum, journey) => sum + journey.charge, 0));
+    const afterDailyCap = Math.min(charged, dailyCap);
+    days[date] = {
+      date,
+      journeys: dayJourneys,
+      charged,
+      dailyCap,
+      afterDailyCap,
+      cost: afterDailyCap,
+      cappedBy: charged > dailyCap ? 'daily' : null,
+      tableVersion: table.version,
+    };
+  }
+
+  const byWeek = new Map<string, DayFare[]>();
+  for (const day of Object.values(days).sort((a, b) => a.date.localeCompare(b.date))) {
+    const weekStart = weekStartOf(day.date);
+    byWeek.set(weekStart, [...(byWeek.get(weekStart) ?? []), day]);
+  }
+
+  const weeks: WeekFare[] = [];
+  for (const [weekStart, weekDays] of byWeek) {
+    // The weekly cap is taken from the table in force on the Monday.
+    const table = fareTableFor(weekStart, tables);
+    const afterDailyCaps = roundPence(weekDays.reduce((sum, day) => sum + day.afterDailyCap, 0));
+    const busOnly = weekDays.every(day => day.journeys.every(journey => BUS_OR_TRAM.test(journey.description)));
+    const weeklyCap = (busOnly ? table.bus : table.zones[options.zones]).weekly;
+    const total = Math.min(afterDailyCaps, weeklyCap);
+
+    if (total < afterDailyCaps) {
+      const ratio = total / afterDailyCaps;
+      let allocated = 0;
+      weekDays.forEach((day, index) => {
+        // The last day takes the rounding remainder so the week adds up exactly.
+        day.cost = index === weekDays.length - 1 ? roundPence(total - allocated) : roundPence(day.afterDailyCap * ratio);
+        allocated += day.cost;
+        day.cappedBy = 'weekly';
+      });
+    }
+
+    weeks.push({ weekStart, dates: weekDays.map(day => day.date), afterDailyCaps, weeklyCap, total: roundPence(total) });
+  }
+
+  const total = roundPence(weeks.reduce((sum, week) => sum + week.total, 0));
+  return { days, weeks, total };
+};
+
+/**
+ * The capped cost of the given travel days, and what TfL's fares for those
+ * days came to before capping. Days without journeys cost nothing.
+ */
+export const claimForDates = (breakdown: FareBreakdown, dates: string[]) => {
+  const days = dates.map(date => breakdown.days[date]).filter((day): day is DayFare => day !== undefined);
+  return {
+    cost: roundPence(days.reduce((sum, day) => sum + day.cost, 0)),
+    charged: roundPence(days.reduce((sum, day) => sum + day.charged, 0)),
+  };
+};
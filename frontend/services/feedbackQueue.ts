@@ -0,0 +1,83 @@
+import type { FeedbackRequest } from '../types';
+import { ApiError, sendFeedback } from './api';
+
+// Feedback that couldn't be delivered is kept in localStorage and retried
+// when the browser comes back online, so ratings given offline aren't lost.
+
+const STORAGE_KEY = 'feedbackQueue';
+// Oldest entries are dropped beyond this, so a long outage can't fill storage.
+const MAX_QUEUED = 200;
+
+const readQueue = (): FeedbackRequest[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: FeedbackRequest[]) => {
+  try {
+    if (queue.length === 0) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, JSON.stringify(queue.slice(-MAX_QUEUED)));
+  } catch {
+    // Storage full or disabled; the feedback is lost, which beats failing the UI.
+  }
+};
+
+/** Errors worth retrying later; anything else means the backend rejected the feedback. */
+const isTransient = (error: unknown) =>
+  !(error instanceof ApiError)
+  || error.kind === 'network'
+  || error.kind === 'timeout'
+  || (error.kind === 'http' && (error.status === undefined || error.status >= 500 || error.status === 429));
+
+export const queuedFeedbackCount = () => readQueue().length;
+
+/**
+ * Sends feedback now if possible, otherwise queues it. Resolves with how it
+ * was handled; rejects only when the backend refused it outright.
+ */
+export const submitFeedback = async (feedback: FeedbackRequest): Promise<'sent' | 'queued'> => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    writeQueue([...readQueue(), feedback]);
+    return 'queued';
+  }
+  try {
+    await sendFeedback(feedback);
+    return 'sent';
+  } catch (error) {
+    if (!isTransient(error)) throw error;
+    writeQueue([...readQueue(), feedback]);
+    return 'queued';
+  }
+};
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Retries queued feedback in order, stopping at the first transient failure.
+ * Resolves with the number delivered. Concurrent calls share one flush.
+ */
+export const flushFeedbackQueue = (): Promise<number> => {
+  flushing ??= (async () => {
+    let delivered = 0;
+    try {
+      for (const feedback of readQueue()) {
+        try {
+          await sendFeedback(feedback);
+          delivered++;
+        } catch (error) {
+          if (isTransient(error)) break;
+          console.error('Dropping feedback the backend refused', error);
+        }
+        writeQueue(readQueue().filter(queued => queued.id !== feedback.id));
+      }
+    } finally {
+      flushing = null;
+    }
+    return delivered;
+  })();
+  return flushing;
+};
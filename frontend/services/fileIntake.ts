@@ -0,0 +1,138 @@
+// Checks uploads by what they contain rather than what they are called:
+// PDFs and Word documents by their magic bytes, calendars and CSVs by their
+// first lines. A file whose name doesn't match its content is renamed, so
+// everything downstream can keep dispatching on the extension.
+
+export type FileKind = '.pdf' | '.docx' | '.csv' | '.ics' | '.txt';
+
+export const DEFAULT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+const KIND_LABELS: Record<FileKind, string> = {
+  '.pdf': 'PDF',
+  '.docx': 'Word document',
+  '.csv': 'CSV',
+  '.ics': 'calendar file',
+  '.txt': 'text file',
+};
+
+const MIME_TYPES: Record<FileKind, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.csv': 'text/csv',
+  '.ics': 'text/calendar',
+  '.txt': 'text/plain',
+};
+
+const SNIFF_BYTES = 8 * 1024;
+// A DOCX is a zip whose directory, at the end of the file, lists word/document.xml.
+const ZIP_DIRECTORY_BYTES = 64 * 1024;
+
+export class FileIntakeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileIntakeError';
+  }
+}
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+
+const containsAscii = (bytes: Uint8Array, text: string) => {
+  const needle = Array.from(text, char => char.charCodeAt(0));
+  outer: for (let i = 0; i <= bytes.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (bytes[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+};
+
+/** Text unless it has NUL bytes or much that isn't printable, as binary formats do. */
+const decodeText = (bytes: Uint8Array): string | null => {
+  if (bytes.includes(0)) return null;
+  const text = new TextDecoder('utf-8').decode(bytes);
+  // A multi-byte character cut off at the end of the sample decodes as one replacement character.
+  const unreadable = (text.slice(0, -1).match(/[\uFFFD\u0001-\u0008\u000E-\u001F]/g) ?? []).length;
+  return unreadable > text.length * 0.02 ? null : text;
+};
+
+const countFields = (line: string, delimiter: string) => {
+  let fields = 1;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) fields++;
+  }
+  return fields;
+};
+
+// Exports often open with a title or a date range before the header row.
+const CSV_SAMPLE_LINES = 20;
+
+/**
+ * A header row and the row after it split into the same number (at least two)
+ * of fields, anywhere in the first lines of the file.
+ */
+const looksLikeCsv = (text: string) => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim()).slice(0, CSV_SAMPLE_LINES);
+  if (lines.length === 0) return false;
+  return [',', ';', '\t'].some(delimiter => {
+    if (lines.length === 1) return countFields(lines[0], delimiter) >= 2;
+    return lines.slice(0, -1).some((line, i) => {
+      const fields = countFields(line, delimiter);
+      return fields >= 2 && countFields(lines[i + 1], delimiter) === fields;
+    });
+  });
+};
+
+/** What the file contains, or null for a binary format the app doesn't read. */
+export async function sniffFileKind(file: File): Promise<FileKind | null> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) return '.pdf'; // %PDF-
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    const tail = new Uint8Array(await file.slice(Math.max(0, file.size - ZIP_DIRECTORY_BYTES)).arrayBuffer());
+    return containsAscii(tail, 'word/document.xml') || containsAscii(head, 'word/') ? '.docx' : null;
+  }
+  const text = decodeText(head);
+  if (text === null) return null;
+  if (/^\uFEFF?\s*BEGIN:VCALENDAR/i.test(text)) return '.ics';
+  return looksLikeCsv(text) ? '.csv' : '.txt';
+}
+
+/** The kinds a file of this content may be accepted as; CSVs and calendars are also plain text. */
+const compatibleKinds = (kind: FileKind): FileKind[] => (kind === '.csv' || kind === '.ics' ? [kind, '.txt'] : [kind]);
+
+const extensionOf = (name: string) => {
+  const match = /\.[^./\\]+$/.exec(name);
+  return match ? match[0].toLowerCase() : '';
+};
+
+/**
+ * Checks one upload against the accepted kinds and size limit, resolving with
+ * the file to use — renamed if its extension is missing or misleading — or
+ * throwing a FileIntakeError that names the file and the problem.
+ */
+export async function checkUpload(file: File, acceptedTypes: string[], maxSizeBytes = DEFAULT_MAX_UPLOAD_BYTES): Promise<File> {
+  const accepted = acceptedTypes.map(type => type.toLowerCase());
+  const labels = accepted.map(type => KIND_LABELS[type as FileKind] ?? type);
+  const allowed = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0];
+  if (file.size === 0) throw new FileIntakeError(`${file.name} is empty.`);
+  if (file.size > maxSizeBytes) {
+    throw new FileIntakeError(`${file.name} is ${formatFileSize(file.size)}; files here can be up to ${formatFileSize(maxSizeBytes)}.`);
+  }
+
+  const kind = await sniffFileKind(file);
+  const candidates = kind ? compatibleKinds(kind).filter(candidate => accepted.includes(candidate)) : [];
+  if (!kind || candidates.length === 0) {
+    const found = kind ? `looks like a ${KIND_LABELS[kind]}` : 'isn\'t a file type this app can read';
+    throw new FileIntakeError(`${file.name} ${found}. Upload a ${allowed} instead.`);
+  }
+
+  const extension = extensionOf(file.name);
+  if (candidates.includes(extension as FileKind)) return file;
+  const base = extension && extension in KIND_LABELS ? file.name.slice(0, -extension.length) : file.name;
+  return new File([file], `${base}${candidates[0]}`, { type: MIME_TYPES[candidates[0]], lastModified: file.lastModified });
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcs } from './icalendar';
+
+const calendar = (...events: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+  'END:VCALENDAR',
+].join('\r\n');
+
+const datesOf = (text: string) => parseIcs(text).map(occurrence => occurrence.date);
+
+describe('parseIcs', () => {
+  it('groups WEEKLY days into weeks starting on WKST', () => {
+    // Starts on a Wednesday. With Monday weeks the first week's Sunday is the
+    // 11th and every other week is skipped; with Sunday weeks it is the 15th.
+    const rule = (wkst: string) => calendar([
+      'UID:office',
+      'SUMMARY:Office',
+      'DTSTART;VALUE=DATE:20261007',
+      `RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=WE,SU${wkst}`,
+    ]);
+    expect(datesOf(rule(''))).toEqual(['2026-10-07', '2026-10-11', '2026-10-21', '2026-10-25']);
+    expect(datesOf(rule(';WKST=MO'))).toEqual(['2026-10-07', '2026-10-11', '2026-10-21', '2026-10-25']);
+    expect(datesOf(rule(';WKST=SU'))).toEqual(['2026-10-07', '2026-10-18', '2026-10-21', '2026-11-01']);
+  });
+
+  it('limits DAILY rules to the BYDAY weekdays', () => {
+    // Friday 9 October, so the first weekend is skipped and COUNT only counts weekdays.
+    const text = calendar([
+      'UID:weekdays',
+      'SUMMARY:Office',
+      'DTSTART;VALUE=DATE:20261009',
+      'RRULE:FREQ=DAILY;COUNT=4;BYDAY=MO,TU,WE,TH,FR',
+    ]);
+    expect(datesOf(text)).toEqual(['2026-10-09', '2026-10-12', '2026-10-13', '2026-10-14']);
+  });
+
+  it('puts multi-day all-day events on every day they cover', () => {
+    const text = calendar([
+      'UID:offsite',
+      'SUMMARY:Team offsite',
+      'DTSTART;VALUE=DATE:20261012',
+      'DTEND;VALUE=DATE:20261015',
+    ]);
+    expect(datesOf(text)).toEqual(['2026-10-12', '2026-10-13', '2026-10-14']);
+  });
+
+  it('reads the span of timed events from DTEND or DURATION', () => {
+    const text = calendar(
+      ['UID:overnight', 'SUMMARY:Night shift', 'DTSTART:20261012T220000', 'DTEND:20261013T060000'],
+      ['UID:midnight', 'SUMMARY:Late meeting', 'DTSTART:20261020T180000', 'DTEND:20261021T000000'],
+      ['UID:conference', 'SUMMARY:Conference', 'DTSTART:20261026T090000', 'DURATION:P1DT8H'],
+    );
+    expect(datesOf(text)).toEqual(['2026-10-12', '2026-10-13', '2026-10-20', '2026-10-26', '2026-10-27']);
+  });
+
+  it('spreads each occurrence of a recurring multi-day event', () => {
+    const text = calendar([
+      'UID:rota',
+      'SUMMARY:On site',
+      'DTSTART;VALUE=DATE:20261005',
+      'DTEND;VALUE=DATE:20261007',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+      'EXDATE;VALUE=DATE:20261012',
+    ]);
+    expect(datesOf(text)).toEqual(['2026-10-05', '2026-10-06']);
+  });
+});
@@ -0,0 +1,318 @@
+import type { CalendarEventOccurrence } from '../types';
+import { fromISODate, toISODate } from '../utils/dates';
+
+// A small iCalendar (RFC 5545) reader covering what Outlook, Google and
+// desk-booking tools put in their exports: VEVENTs with RRULE recurrences,
+// EXDATE exclusions and RECURRENCE-ID overrides. Only the days an event
+// falls on matter here, so times are reduced to local calendar dates and an
+// event spanning several days occurs on each of them.
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsParseError';
+  }
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RawEvent {
+  uid: string;
+  summary: string;
+  location: string;
+  status: string;
+  start: string; // YYYY-MM-DD
+  days: number; // calendar days each occurrence covers, at least 1
+  startValue: string;
+  endValue: string | null;
+  duration: string | null;
+  rrule: Record<string, string> | null;
+  exdates: Set<string>;
+  recurrenceId: string | null;
+}
+
+// Open-ended recurrences are expanded this far past their start.
+const DEFAULT_HORIZON_DAYS = 2 * 365;
+const MAX_OCCURRENCES = 2000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const unfold = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const parseProperty = (line: string): Property | null => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon === -1) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/** A DATE or DATE-TIME value as a local time; a DATE is its midnight. */
+const parseDateTime = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  if (utc) return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  // Floating and TZID times are taken at face value.
+  return new Date(+year, +month - 1, +day, +hour, +minute, +second);
+};
+
+/** Reduces a DATE or DATE-TIME value to the local calendar date it falls on. */
+const parseDateValue = (value: string): string | null => {
+  const date = parseDateTime(value);
+  return date && toISODate(date);
+};
+
+/** `start` plus a DURATION such as "P2D", "P1W" or "PT1H30M". */
+const addDuration = (start: Date, duration: string): Date | null => {
+  const match = duration.trim().toUpperCase().match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + +weeks * 7 + +days,
+    start.getHours(), start.getMinutes(), start.getSeconds());
+  return new Date(end.getTime() + ((+hours * 60 + +minutes) * 60 + +seconds) * 1000);
+};
+
+/**
+ * How many calendar days an event covers. DTEND is exclusive, so an all-day
+ * event ending on the 5th, or a meeting ending at midnight, stops on the 4th.
+ */
+const spanDays = (event: RawEvent): number => {
+  const start = parseDateTime(event.startValue);
+  if (!start) return 1;
+  const end = event.endValue
+    ? parseDateTime(event.endValue)
+    : event.duration ? addDuration(start, event.duration) : null;
+  if (!end || end <= start) return 1;
+  const lastDay = fromISODate(toISODate(new Date(end.getTime() - 1)));
+  return Math.round((lastDay.getTime() - fromISODate(toISODate(start)).getTime()) / 86_400_000) + 1;
+};
+
+const parseRule = (value: string) =>
+  Object.fromEntries(value.split(';').map(part => {
+    const [key, ruleValue = ''] = part.split('=');
+    return [key.toUpperCase(), ruleValue.toUpperCase()];
+  }));
+
+const readEvents = (text: string): RawEvent[] => {
+  const events: RawEvent[] = [];
+  let current: RawEvent | null = null;
+  let depth = 0;
+
+  for (const line of unfold(text)) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT') {
+        current = {
+          uid: '', summary: '', location: '', status: '', start: '', days: 1,
+          startValue: '', endValue: null, duration: null,
+          rrule: null, exdates: new Set(), recurrenceId: null,
+        };
+        depth = 0;
+      } else if (current) {
+        depth++; // e.g. a VALARM nested in the event
+      }
+      continue;
+    }
+    if (property.name === 'END') {
+      if (property.value.toUpperCase() === 'VEVENT' && current) {
+        if (current.start) events.push({ ...current, days: spanDays(current) });
+        current = null;
+      } else if (current) {
+        depth--;
+      }
+      continue;
+    }
+    if (!current || depth > 0) continue;
+
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(property.value);
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(property.value);
+        break;
+      case 'STATUS':
+        current.status = property.value.trim().toUpperCase();
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(property.value) ?? '';
+        current.startValue = property.value;
+        break;
+      case 'DTEND':
+        current.endValue = property.value;
+        break;
+      case 'DURATION':
+        current.duration = property.value;
+        break;
+      case 'RRULE':
+        current.rrule = parseRule(property.value);
+        break;
+      case 'EXDATE':
+        for (const value of property.value.split(',')) {
+          const date = parseDateValue(value);
+          if (date) current.exdates.add(date);
+        }
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(property.value);
+        break;
+    }
+  }
+  return events;
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Dates matching a BYDAY entry such as "TU" or "2TU"/"-1FR" within one month. */
+const weekdaysInMonth = (year: number, month: number, byDay: string): Date[] => {
+  const match = byDay.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  if (!match) return [];
+  const weekday = WEEKDAY_CODES.indexOf(match[2]);
+  const matches: Date[] = [];
+  for (let day = new Date(year, month, 1); day.getMonth() === month; day = addDays(day, 1)) {
+    if (day.getDay() === weekday) matches.push(day);
+  }
+  if (!match[1]) return matches;
+  const ordinal = Number(match[1]);
+  const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+  return picked ? [picked] : [];
+};
+
+/** Candidate dates for one period of the rule (a day, week, month or year). */
+const datesInPeriod = (start: Date, freq: string, index: number, interval: number, rule: Record<string, string>): Date[] => {
+  const byDay = rule.BYDAY ? rule.BYDAY.split(',') : [];
+  const byMonthDay = rule.BYMONTHDAY ? rule.BYMONTHDAY.split(',').map(Number) : [];
+
+  switch (freq) {
+    case 'DAILY': {
+      // BYDAY limits a daily rule to those weekdays, e.g. FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR.
+      const date = addDays(start, index * interval);
+      const weekdays = byDay.map(code => WEEKDAY_CODES.indexOf(code.slice(-2)));
+      return byDay.length === 0 || weekdays.includes(date.getDay()) ? [date] : [];
+    }
+    case 'WEEKLY': {
+      // Weeks begin on WKST, Monday unless the rule says otherwise. It decides
+      // which days share a week, and so which weeks an INTERVAL skips.
+      const weekStartDay = Math.max(0, WEEKDAY_CODES.indexOf(rule.WKST ?? 'MO'));
+      const daysIntoWeek = (weekday: number) => (weekday - weekStartDay + 7) % 7;
+      const weekStart = addDays(start, index * interval * 7 - daysIntoWeek(start.getDay()));
+      if (byDay.length === 0) return [addDays(start, index * interval * 7)];
+      return byDay
+        .map(code => WEEKDAY_CODES.indexOf(code.slice(-2)))
+        .filter(weekday => weekday >= 0)
+        .map(daysIntoWeek)
+        .sort((a, b) => a - b)
+        .map(offset => addDays(weekStart, offset));
+    }
+    case 'MONTHLY': {
+      const month = new Date(start.getFullYear(), start.getMonth() + index * interval, 1);
+      if (byDay.length > 0) {
+        return byDay.flatMap(code => weekdaysInMonth(month.getFullYear(), month.getMonth(), code));
+      }
+      const days = byMonthDay.length > 0 ? byMonthDay : [start.getDate()];
+      return days
+        .map(day => new Date(month.getFullYear(), month.getMonth(), day))
+        .filter(date => date.getMonth() === month.getMonth());
+    }
+    case 'YEARLY': {
+      const date = new Date(start.getFullYear() + index * interval, start.getMonth(), start.getDate());
+      return date.getMonth() === start.getMonth() ? [date] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+const expand = (event: RawEvent, horizon: string): string[] => {
+  if (!event.rrule) return [event.start];
+
+  const rule = event.rrule;
+  const freq = rule.FREQ;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return [event.start];
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? parseDateValue(rule.UNTIL) : null;
+  const end = until && until < horizon ? until : horizon;
+  const start = fromISODate(event.start);
+
+  const dates: string[] = [];
+  let generated = 0;
+  for (let index = 0; generated < count && dates.length < MAX_OCCURRENCES; index++) {
+    const candidates = datesInPeriod(start, freq, index, interval, rule)
+      .map(toISODate)
+      .filter(date => date >= event.start)
+      .sort();
+    if (candidates.length === 0 && index > 0 && freq === 'WEEKLY') break;
+    let pastEnd = false;
+    for (const date of candidates) {
+      if (date > end) {
+        pastEnd = true;
+        break;
+      }
+      if (generated >= count) break;
+      generated++;
+      // EXDATEs still count towards COUNT, as RFC 5545 requires.
+      if (!event.exdates.has(date)) dates.push(date);
+    }
+    if (pastEnd) break;
+    // Guard against rules that never produce a date (e.g. BYMONTHDAY=31 forever).
+    if (index > MAX_OCCURRENCES * 2) break;
+  }
+  return dates;
+};
+
+/** Expands every event in an .ics file into the days it occurs on. */
+export const parseIcs = (text: string, horizonDays = DEFAULT_HORIZON_DAYS): CalendarEventOccurrence[] => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new IcsParseError("This file isn't an iCalendar (.ics) export.");
+  }
+  const events = readEvents(text);
+  const overridden = new Set(
+    events.filter(event => event.recurrenceId).map(event => `${event.uid}|${event.recurrenceId}`),
+  );
+
+  const occurrences: CalendarEventOccurrence[] = [];
+  for (const event of events) {
+    if (event.status === 'CANCELLED') continue;
+    const horizon = toISODate(addDays(fromISODate(event.start), horizonDays));
+    const dates = event.recurrenceId
+      ? [event.start]
+      : expand(event, horizon).filter(date => !overridden.has(`${event.uid}|${date}`));
+    const days = new Set(dates.flatMap(date =>
+      Array.from({ length: event.days }, (_, i) => toISODate(addDays(fromISODate(date), i)))));
+    for (const date of days) {
+      occurrences.push({ date, summary: event.summary, location: event.location });
+    }
+  }
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Keeps occurrences whose title or location contains any of the
+ * comma-separated keywords, ignoring case.
+ */
+export const filterOccurrences = (occurrences: CalendarEventOccurrence[], filter: string) => {
+  const keywords = filter.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+  if (keywords.length === 0) return [];
+  return occurrences.filter(occurrence => {
+    const haystack = `${occurrence.summary} ${occurrence.location}`.toLowerCase();
+    return keywords.some(keyword => haystack.includes(keyword));
+  });
+};
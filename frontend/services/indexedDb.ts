@@ -0,0 +1,62 @@
+// Minimal promise wrapper around IndexedDB for the app's local database.
+// Object stores are declared here so every upgrade lives in one place.
+
+const DB_NAME = 'work-transport-assistant';
+const DB_VERSION = 3;
+
+export type StoreName = 'threads' | 'documents' | 'session' | 'claims';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('threads')) db.createObjectStore('threads', { keyPath: 'id' });
+      if (!db.objectStoreNames.contains('documents')) db.createObjectStore('documents', { keyPath: 'id' });
+      // Version 2: the autosaved working session, a single record.
+      if (!db.objectStoreNames.contains('session')) db.createObjectStore('session');
+      // Version 3: the claims history.
+      if (!db.objectStoreNames.contains('claims')) db.createObjectStore('claims', { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call retry, e.g. after the user allows storage again.
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` in a transaction over the given stores and resolves with its
+ * result once the transaction has committed.
+ */
+export async function withStores<T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+  // Waiting on both keeps `done` handled when `work` fails first.
+  const [result] = await Promise.all([work(transaction), done]);
+  return result;
+}
@@ -0,0 +1,24 @@
+import type { CalendarDaySummary, Journey } from '../types';
+
+export const groupJourneysByDate = (journeys: Journey[]) => {
+  const byDate = new Map<string, Journey[]>();
+  for (const journey of journeys) {
+    const list = byDate.get(journey.date);
+    if (list) list.push(journey);
+    else byDate.set(journey.date, [journey]);
+  }
+  return byDate;
+};
+
+// Top-ups and refunds show up as rows with a credit and no charge; they
+// don't mean the card holder travelled that day.
+export const isTravel = (journey: Journey) => !(journey.credit > 0 && journey.charge === 0);
+
+export const summariseDays = (journeys: Journey[]): Record<string, CalendarDaySummary> => {
+  const summaries: Record<string, CalendarDaySummary> = {};
+  for (const [date, dayJourneys] of groupJourneysByDate(journeys.filter(isTravel))) {
+    const total = dayJourneys.reduce((sum, journey) => sum + journey.charge, 0);
+    summaries[date] = { total: Math.round(total * 100) / 100, journeys: dayJourneys };
+  }
+  return summaries;
+};
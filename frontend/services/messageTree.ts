@@ -0,0 +1,92 @@
+import type { ChatHistoryEntry, ChatMessage, MessageNode, MessageTree } from '../types';
+
+// Pure helpers for the Document Assistant's message tree. Every function
+// returns a new tree, so they can be used directly in state updaters.
+
+export const createTree = (root: ChatMessage, rootId: string = crypto.randomUUID()): MessageTree => ({
+  rootId,
+  nodes: { [rootId]: { id: rootId, parentId: null, childIds: [], message: root } },
+  selectedChild: {},
+});
+
+/** Builds a single-branch tree from a flat list, e.g. a thread saved before branching existed. */
+export const treeFromMessages = (messages: ChatMessage[]): MessageTree => {
+  const [first = { role: 'assistant', content: '' }, ...rest] = messages;
+  let tree = createTree(first);
+  let parentId = tree.rootId;
+  for (const message of rest) {
+    const id = crypto.randomUUID();
+    tree = appendMessage(tree, parentId, id, message);
+    parentId = id;
+  }
+  return tree;
+};
+
+/** The nodes from the root to the end of the active branch. */
+export const activePath = (tree: MessageTree): MessageNode[] => {
+  const path: MessageNode[] = [];
+  let node: MessageNode | undefined = tree.nodes[tree.rootId];
+  while (node) {
+    path.push(node);
+    const childId: string | undefined = tree.selectedChild[node.id] ?? node.childIds[node.childIds.length - 1];
+    node = childId ? tree.nodes[childId] : undefined;
+  }
+  return path;
+};
+
+/** The nodes from the root down to `id`, inclusive. */
+export const pathTo = (tree: MessageTree, id: string): MessageNode[] => {
+  const path: MessageNode[] = [];
+  for (let node: MessageNode | undefined = tree.nodes[id]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+/** Adds `message` as the newest child of `parentId` and makes it the active branch. */
+export const appendMessage = (tree: MessageTree, parentId: string, id: string, message: ChatMessage): MessageTree => {
+  const parent = tree.nodes[parentId];
+  if (!parent) return tree;
+  return {
+    ...tree,
+    nodes: {
+      ...tree.nodes,
+      [parentId]: { ...parent, childIds: [...parent.childIds, id] },
+      [id]: { id, parentId, childIds: [], message },
+    },
+    selectedChild: { ...tree.selectedChild, [parentId]: id },
+  };
+};
+
+export const updateMessage = (tree: MessageTree, id: string, update: (message: ChatMessage) => ChatMessage): MessageTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, message: update(node.message) } } };
+};
+
+/** Where a node sits among its alternatives, for a "2/3" switcher. */
+export const branchPosition = (tree: MessageTree, id: string): { index: number; count: number } => {
+  const parentId = tree.nodes[id]?.parentId;
+  const siblings = parentId ? tree.nodes[parentId].childIds : [id];
+  return { index: siblings.indexOf(id), count: siblings.length };
+};
+
+/** Switches the active branch to the sibling `offset` places from `id`. */
+export const selectSibling = (tree: MessageTree, id: string, offset: number): MessageTree => {
+  const parentId = tree.nodes[id]?.parentId;
+  if (!parentId) return tree;
+  const siblings = tree.nodes[parentId].childIds;
+  const target = siblings[siblings.indexOf(id) + offset];
+  if (!target) return tree;
+  return { ...tree, selectedChild: { ...tree.selectedChild, [parentId]: target } };
+};
+
+/**
+ * The conversation so far as the backend should see it: the path down to
+ * `id`, without the canned greeting and without replies that failed or
+ * never produced text.
+ */
+export const historyTo = (tree: MessageTree, id: string): ChatHistoryEntry[] =>
+  pathTo(tree, id)
+    .filter(node => node.id !== tree.rootId && node.message.content.trim() && node.message.status !== 'error')
+    .map(({ message }) => ({ role: message.role, content: message.content }));
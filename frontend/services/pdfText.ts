@@ -0,0 +1,115 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { PdfPageText } from '../types';
+
+export type PdfExtractionErrorKind = 'unreadable' | 'encrypted' | 'scanned' | 'unrecognised';
+
+export class PdfExtractionError extends Error {
+  readonly kind: PdfExtractionErrorKind;
+
+  constructor(kind: PdfExtractionErrorKind, message: string) {
+    super(message);
+    this.name = 'PdfExtractionError';
+    this.kind = kind;
+  }
+}
+
+// Below this many characters per page we assume the PDF is an image scan
+// with no text layer.
+const MIN_CHARS_PER_PAGE = 20;
+// Items whose baselines are within this many points share a line.
+const LINE_TOLERANCE = 2;
+
+interface PositionedText {
+  x: number;
+  y: number;
+  width: number;
+  str: string;
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// pdf.js is large, so it is only fetched the first time a PDF is opened.
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+};
+
+/** Rebuilds reading-order lines from pdf.js text items, which arrive as positioned fragments. */
+const toLines = (items: PositionedText[]): string[] => {
+  const rows: PositionedText[][] = [];
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= LINE_TOLERANCE) row.push(item);
+    else rows.push([item]);
+  }
+
+  return rows
+    .map(row => {
+      row.sort((a, b) => a.x - b.x);
+      let line = '';
+      let lastEnd = -Infinity;
+      for (const item of row) {
+        // A visible gap between fragments is a column break; keep it as a
+        // double space so table cells stay distinguishable.
+        const gap = item.x - lastEnd;
+        if (line && gap > 8) line += '  ';
+        else if (line && gap > 1 && !line.endsWith(' ')) line += ' ';
+        line += item.str;
+        lastEnd = item.x + item.width;
+      }
+      return line.trim();
+    })
+    .filter(line => line.length > 0);
+};
+
+/** Reports pages read so far, for progress on long documents. */
+export type PdfProgress = (pagesRead: number, pageCount: number) => void;
+
+/** Extracts the text of every page, entirely in the browser. */
+export async function extractPdfText(file: File, signal?: AbortSignal, onProgress?: PdfProgress): Promise<PdfPageText[]> {
+  const pdfjs = await loadPdfjs();
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  let doc;
+  try {
+    doc = await pdfjs.getDocument({ data }).promise;
+  } catch (error) {
+    if ((error as Error)?.name === 'PasswordException') {
+      throw new PdfExtractionError('encrypted', 'This PDF is password protected. Remove the password and try again.');
+    }
+    throw new PdfExtractionError('unreadable', 'This file could not be opened as a PDF.');
+  }
+
+  try {
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      if (signal?.aborted) throw new DOMException('PDF extraction was cancelled.', 'AbortError');
+      const page = await doc.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        items.push({ x: item.transform[4], y: item.transform[5], width: item.width, str: item.str });
+      }
+      pages.push({ pageNumber, lines: toLines(items) });
+      onProgress?.(pageNumber, doc.numPages);
+    }
+
+    const totalChars = pages.reduce((sum, page) => sum + page.lines.join('').length, 0);
+    if (totalChars < MIN_CHARS_PER_PAGE * pages.length) {
+      throw new PdfExtractionError(
+        'scanned',
+        'This PDF looks like a scanned image with no readable text. Download the statement from TfL as a PDF or CSV instead.',
+      );
+    }
+    return pages;
+  } finally {
+    doc.destroy();
+  }
+}
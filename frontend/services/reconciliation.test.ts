@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { reconcile } from './reconciliation';
+import { fareTables } from '../data/fares';
+import type { Journey } from '../types';
+
+const journey = (date: string, startTime: string, charge = 2.8): Journey => ({
+  date,
+  startTime,
+  endTime: null,
+  description: 'Bank to Stratford',
+  charge,
+  credit: 0,
+  balance: null,
+  note: '',
+  sourceRow: 1,
+});
+
+describe('reconcile', () => {
+  it('counts journeys before the travel-day boundary towards the previous day', () => {
+    const report = reconcile(
+      [journey('2026-10-06', '08:10'), journey('2026-10-07', '00:45')],
+      ['2026-10-06'],
+      fareTables,
+    );
+    expect(report.unclaimedTravel).toEqual([]);
+    expect(report.workDaysWithoutTravel).toEqual([]);
+  });
+
+  it('flags journeys on days that are not selected', () => {
+    const report = reconcile(
+      [journey('2026-10-06', '08:10'), journey('2026-10-08', '05:00', 3.1)],
+      ['2026-10-06', '2026-10-07'],
+      fareTables,
+    );
+    expect(report.unclaimedTravel).toMatchObject([{ date: '2026-10-08', charged: 3.1 }]);
+    expect(report.workDaysWithoutTravel).toEqual([{ date: '2026-10-07', outsideInvoicePeriod: false }]);
+  });
+});
@@ -0,0 +1,34 @@
+import type { FareTable, Journey, ReconciliationReport } from '../types';
+import { travelDayOf } from './fareEngine';
+import { summariseDays } from './journeys';
+
+/**
+ * Compares the invoice with the selected work days. Travel on unselected
+ * days is probably personal and shouldn't be claimed; selected days with no
+ * travel usually mean a wrong date or a missing invoice. Journeys are put on
+ * the travel day the fare engine charges them to, so a late-night journey
+ * home counts towards the day it started.
+ */
+export const reconcile = (journeys: Journey[], selectedDates: string[], tables: FareTable[]): ReconciliationReport => {
+  const days = summariseDays(journeys.map(journey => ({ ...journey, date: travelDayOf(journey, tables) })));
+  const selected = new Set(selectedDates);
+
+  const unclaimedTravel = Object.entries(days)
+    .filter(([date]) => !selected.has(date))
+    .map(([date, day]) => ({ date, journeys: day.journeys, charged: day.total }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const travelDates = Object.keys(days).sort();
+  const firstDate = travelDates[0];
+  const lastDate = travelDates[travelDates.length - 1];
+
+  const workDaysWithoutTravel = [...selected]
+    .filter(date => !days[date])
+    .sort()
+    .map(date => ({
+      date,
+      outsideInvoicePeriod: !firstDate || date < firstDate || date > lastDate,
+    }));
+
+  return { unclaimedTravel, workDaysWithoutTravel };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findPii } from './redaction';
+
+const textsOf = (text: string, kind: string) => findPii(text).filter(redaction => redaction.kind === kind).map(redaction => redaction.text);
+
+describe('findPii', () => {
+  it('finds email addresses', () => {
+    expect(textsOf('Receipts go to jo.bloggs+tfl@example.co.uk and copies to FINANCE@EXAMPLE.COM.', 'email')).toEqual([
+      'jo.bloggs+tfl@example.co.uk',
+      'FINANCE@EXAMPLE.COM',
+    ]);
+  });
+
+  it('finds UK phone numbers', () => {
+    const text = 'Call 020 7946 0018, mobile +44 (0)7700 900123 or 07700900124. Ref 0123 4567 8901.';
+    expect(textsOf(text, 'phone')).toEqual(['020 7946 0018', '+44 (0)7700 900123', '07700900124']);
+  });
+
+  it('finds full, masked and "ending" card numbers', () => {
+    const text = [
+      'Visa 4111 1111 1111 1111',
+      'Amex 3782-822463-10005',
+      'Not a card 4111 1111 1111 1112',
+      'Contactless **** **** **** 4242',
+      'Paid with card ending in 5678',
+    ].join('\n');
+    expect(textsOf(text, 'card')).toEqual(['4111 1111 1111 1111', '3782-822463-10005', '**** **** **** 4242', 'ending in 5678']);
+  });
+
+  it('finds postcodes with or without the space', () => {
+    expect(textsOf('Mr A Person, 10 Downing Street, London SW1A 2AA. Returns to EC1A1BB.', 'postcode')).toEqual(['SW1A 2AA', 'EC1A1BB']);
+  });
+
+  it('returns the details in order of first appearance, once each', () => {
+    const text = 'Customer name: Jo Bloggs\nEmail jo@example.com\nCard ending 1234\nPostcode N1 9GU\nEmail jo@example.com';
+    expect(findPii(text)).toEqual([
+      { kind: 'name', text: 'Jo Bloggs' },
+      { kind: 'email', text: 'jo@example.com' },
+      { kind: 'card', text: 'ending 1234' },
+      { kind: 'postcode', text: 'N1 9GU' },
+    ]);
+  });
+
+  it('finds nothing in a plain journey history', () => {
+    const text = [
+      'Date Time Journey Charge Balance',
+      '06/10/2026 08:10 - 08:40 Bank to Stratford £2.80 £17.20',
+      '06/10/2026 17:55 Bus journey, route 25 £1.75 £15.45',
+      'Total charged £4.55 in zones 1-2',
+    ].join('\n');
+    expect(findPii(text)).toEqual([]);
+  });
+});
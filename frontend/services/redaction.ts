@@ -0,0 +1,146 @@
+import type { PiiKind, Redaction, RedactionDecision, RedactionDocument } from '../types';
+
+// Finds personal details in text extracted from invoices and statements, so
+// documents can be redacted before they are sent to the backend. The
+// patterns favour what TfL and bank paperwork contains: labelled or titled
+// names, UK postcodes, email addresses, UK phone numbers, card numbers
+// (full, masked or "ending 1234") and 12-digit Oyster card numbers.
+
+/** Set at build time so a deployment can insist that documents are always redacted. */
+export const redactionRequired = process.env.REQUIRE_REDACTION === 'true';
+
+export const PII_LABELS: Record<PiiKind, string> = {
+  name: 'Name',
+  postcode: 'Postcode',
+  email: 'Email',
+  phone: 'Phone number',
+  card: 'Card number',
+  oyster: 'Oyster card',
+  custom: 'Other',
+};
+
+const PLACEHOLDERS: Record<PiiKind, string> = {
+  name: '[NAME]',
+  postcode: '[POSTCODE]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  card: '[CARD]',
+  oyster: '[OYSTER]',
+  custom: '[REDACTED]',
+};
+
+const NAME = "[A-Z][a-z'’-]+(?: [A-Z][a-z'’-]+){0,3}";
+const TITLED_NAME = new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\\.? ${NAME}`, 'g');
+// The name after a label such as "Customer name:" or "Dear", without the label.
+const LABELLED_NAME = new RegExp(
+  `\\b(?:[Nn]ame|Customer|Cardholder|Card holder|Account holder|Passenger|Claimant|Bill to|Dear)\\b[ \\t]*[:,-]?[ \\t]*(${NAME})`,
+  'g',
+);
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const POSTCODE = /\b(?:GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[ABD-HJLNP-UW-Z]{2})\b/g;
+// "020 7946 0018", "07700 900123" or "+44 (0)7700 900123"; the digit count is checked separately.
+const PHONE = /(?:\+44 ?(?:\(0\) ?)?|\b0)\d{2,4}(?:[ -]?\d{3,4}){1,2}\b/g;
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+const MASKED_CARD = /(?:[*xX•]{4}[ -]?){1,3}[*xX•]{0,4}\d{4}\b/g;
+const CARD_ENDING = /\bending(?: in)?:? \d{4}\b/gi;
+const TWELVE_DIGITS = /\b\d{4}[ -]?\d{4}[ -]?\d{4}\b/g;
+const OYSTER_CONTEXT = /oyster|card (?:no|number)/i;
+
+// Words that follow a label without being a name, e.g. "Name Date Amount" in a header row.
+const NOT_NAMES = new Set(['Date', 'Time', 'Journey', 'Amount', 'Balance', 'Charge', 'Note', 'Number', 'Card', 'Address', 'Total']);
+
+const luhnValid = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/** Distinct personal details in the text, in order of first appearance. */
+export const findPii = (text: string): Redaction[] => {
+  const found: (Redaction & { index: number })[] = [];
+  const add = (kind: PiiKind, value: string, index: number) => {
+    const trimmed = value.trim();
+    if (trimmed && !found.some(existing => existing.text === trimmed)) found.push({ kind, text: trimmed, index });
+  };
+
+  for (const match of text.matchAll(EMAIL)) add('email', match[0], match.index);
+  for (const match of text.matchAll(TITLED_NAME)) add('name', match[0], match.index);
+  for (const match of text.matchAll(LABELLED_NAME)) {
+    const words = match[1].split(' ');
+    if (!NOT_NAMES.has(words[0])) add('name', match[1], match.index + match[0].length - match[1].length);
+  }
+  for (const match of text.matchAll(POSTCODE)) add('postcode', match[0], match.index);
+  for (const match of text.matchAll(PHONE)) {
+    // UK numbers have ten digits after the leading 0 or +44.
+    const national = match[0].replace(/^\+44 ?(?:\(0\))?/, '').replace(/\D/g, '').replace(/^0/, '');
+    if (national.length === 10) add('phone', match[0], match.index);
+  }
+  for (const match of text.matchAll(CARD_NUMBER)) {
+    if (luhnValid(match[0].replace(/\D/g, ''))) add('card', match[0], match.index);
+  }
+  for (const match of text.matchAll(MASKED_CARD)) add('card', match[0], match.index);
+  for (const match of text.matchAll(CARD_ENDING)) add('card', match[0], match.index);
+  for (const match of text.matchAll(TWELVE_DIGITS)) {
+    const lineStart = text.lastIndexOf('\n', match.index) + 1;
+    if (OYSTER_CONTEXT.test(text.slice(Math.max(lineStart, match.index - 60), match.index))) add('oyster', match[0], match.index);
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(({ kind, text: value }) => ({ kind, text: value }));
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const redactionPattern = (redactions: Redaction[]) => {
+  // Longest first, so "Mr John Smith" wins over "John Smith".
+  const texts = [...new Set(redactions.map(redaction => redaction.text).filter(Boolean))].sort((a, b) => b.length - a.length);
+  return texts.length > 0 ? new RegExp(texts.map(escapeRegExp).join('|'), 'g') : null;
+};
+
+/** Replaces every occurrence of each redacted text with a placeholder naming what was removed. */
+export const redactText = (text: string, redactions: Redaction[]): string => {
+  const pattern = redactionPattern(redactions);
+  if (!pattern) return text;
+  const kinds = new Map(redactions.map(redaction => [redaction.text, redaction.kind]));
+  return text.replace(pattern, match => PLACEHOLDERS[kinds.get(match) ?? 'custom']);
+};
+
+/** The text split into plain and redacted runs, for highlighting in a preview. */
+export const redactionSegments = (text: string, redactions: Redaction[]): { text: string; redaction?: Redaction }[] => {
+  const pattern = redactionPattern(redactions);
+  if (!pattern) return [{ text }];
+  const segments: { text: string; redaction?: Redaction }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ text: match[0], redaction: redactions.find(redaction => redaction.text === match[0]) });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+/**
+ * The redacted text as a file to upload in place of the original. CSV and
+ * text files keep their name; PDFs and Word documents become plain text,
+ * with PDF pages still separated by form feeds.
+ */
+export const redactedFile = (file: File, redactedText: string): File => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    return new File([redactedText], file.name, { type: file.type || 'text/plain' });
+  }
+  return new File([redactedText], `${file.name.replace(/\.[^.]+$/, '')}.txt`, { type: 'text/plain' });
+};
+
+export const placeholderFor = (kind: PiiKind) => PLACEHOLDERS[kind];
+
+/** The file to upload for a reviewed document: the original, or its redacted text. */
+export const outgoingFile = (document: RedactionDocument, decision: RedactionDecision): File =>
+  decision === null ? document.file : redactedFile(document.file, redactText(document.text, decision));
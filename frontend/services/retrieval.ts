@@ -0,0 +1,93 @@
+import type { ChatSource, RetrievedPassage } from '../types';
+
+// Client side of the retrieval worker: keeps a BM25 index of the Document
+// Assistant's files so passages can be found without the backend.
+
+export type RetrievalRequest =
+  | { type: 'index'; documentId: string; documentName: string; text: string }
+  | { type: 'remove'; documentId: string }
+  | { type: 'search'; requestId: number; query: string; documentIds: string[]; limit: number };
+
+export type RetrievalResponse = { type: 'results'; requestId: number; passages: RetrievedPassage[] };
+
+const DEFAULT_LIMIT = 5;
+// Longest passage quoted in a retrieval-only answer.
+const QUOTE_LENGTH = 400;
+
+export class LocalRetriever {
+  private worker: Worker;
+  private nextRequestId = 1;
+  private pending = new Map<number, (passages: RetrievedPassage[]) => void>();
+
+  constructor() {
+    this.worker = new Worker(new URL('./retrieval.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.addEventListener('message', (event: MessageEvent<RetrievalResponse>) => {
+      const { requestId, passages } = event.data;
+      this.pending.get(requestId)?.(passages);
+      this.pending.delete(requestId);
+    });
+    this.worker.addEventListener('error', event => {
+      console.error('Retrieval worker failed', event.message);
+      this.resolveAll([]);
+    });
+  }
+
+  index(documentId: string, documentName: string, text: string) {
+    this.send({ type: 'index', documentId, documentName, text });
+  }
+
+  remove(documentId: string) {
+    this.send({ type: 'remove', documentId });
+  }
+
+  /** Finds the passages that best match `query` among the given documents. */
+  search(query: string, documentIds: string[], limit = DEFAULT_LIMIT): Promise<RetrievedPassage[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pending.set(requestId, resolve);
+      this.send({ type: 'search', requestId, query, documentIds, limit });
+    });
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.resolveAll([]);
+  }
+
+  private send(request: RetrievalRequest) {
+    this.worker.postMessage(request);
+  }
+
+  private resolveAll(passages: RetrievedPassage[]) {
+    for (const resolve of this.pending.values()) resolve(passages);
+    this.pending.clear();
+  }
+}
+
+export const passageToSource = (passage: RetrievedPassage): ChatSource => ({
+  documentName: passage.documentName,
+  snippet: passage.text,
+  page: passage.page,
+  rows: passage.rows,
+  score: passage.score,
+});
+
+const quote = (text: string) => {
+  const clipped = text.length > QUOTE_LENGTH ? `${text.slice(0, QUOTE_LENGTH).trimEnd()}…` : text;
+  return clipped.split('\n').map(line => `> ${line}`).join('\n');
+};
+
+/** Markdown for a reply made only of matching passages, numbered to match their source chips. */
+export const formatRetrievalAnswer = (passages: RetrievedPassage[]): string => {
+  if (passages.length === 0) {
+    return 'No passages in the selected documents match your question. Try different wording, or check the right documents are ticked.';
+  }
+  const intro = passages.length === 1
+    ? 'Here is the passage that best matches your question:'
+    : `Here are the ${passages.length} passages that best match your question:`;
+  const quotes = passages.map((passage, i) => {
+    const location = passage.page ? `, page ${passage.page}` : passage.rows ? `, rows ${passage.rows.start}–${passage.rows.end}` : '';
+    return `**[${i + 1}] ${passage.documentName}${location}**\n\n${quote(passage.text)}`;
+  });
+  return [intro, ...quotes].join('\n\n');
+};
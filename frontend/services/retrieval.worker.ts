@@ -0,0 +1,30 @@
+import { Bm25Index } from './bm25';
+import { chunkDocument } from './chunking';
+import type { RetrievalRequest, RetrievalResponse } from './retrieval';
+
+// Runs chunking and search off the main thread, so indexing a long PDF
+// doesn't stall typing in the chat box.
+
+const index = new Bm25Index();
+
+const reply = (response: RetrievalResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<RetrievalRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'index':
+      index.removeDocument(request.documentId);
+      index.add(chunkDocument(request.documentId, request.documentName, request.text));
+      break;
+    case 'remove':
+      index.removeDocument(request.documentId);
+      break;
+    case 'search':
+      reply({
+        type: 'results',
+        requestId: request.requestId,
+        passages: index.search(request.query, { documentIds: request.documentIds, limit: request.limit }),
+      });
+      break;
+  }
+});
@@ -0,0 +1,24 @@
+import type { SavedSession } from '../types';
+import { requestResult, withStores } from './indexedDb';
+
+// The autosaved working session: selected dates, the invoice file itself,
+// results and the open Document Assistant thread. There is only ever one,
+// so it lives under a fixed key.
+
+const SESSION_KEY = 'current';
+
+export const loadSession = (): Promise<SavedSession | null> =>
+  withStores(['session'], 'readonly', async transaction => {
+    const session = await requestResult(transaction.objectStore('session').get(SESSION_KEY) as IDBRequest<SavedSession | undefined>);
+    return session ?? null;
+  });
+
+export const saveSession = (session: SavedSession): Promise<void> =>
+  withStores(['session'], 'readwrite', async transaction => {
+    await requestResult(transaction.objectStore('session').put(session, SESSION_KEY));
+  });
+
+export const clearSession = (): Promise<void> =>
+  withStores(['session'], 'readwrite', async transaction => {
+    await requestResult(transaction.objectStore('session').delete(SESSION_KEY));
+  });
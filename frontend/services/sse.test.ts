@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { SseParser } from './sse';
+
+describe('SseParser', () => {
+  it('joins data lines and names events', () => {
+    const parser = new SseParser();
+    expect(parser.push('event: token\ndata: a\ndata: b\n\n: comment\ndata: plain\n\n')).toEqual([
+      { event: 'token', data: 'a\nb' },
+      { event: 'message', data: 'plain' },
+    ]);
+  });
+
+  it('waits for the rest of an event split across chunks', () => {
+    const parser = new SseParser();
+    expect(parser.push('event: tok')).toEqual([]);
+    expect(parser.push('en\ndata: {"text":"hi"}\n')).toEqual([]);
+    expect(parser.push('\n')).toEqual([{ event: 'token', data: '{"text":"hi"}' }]);
+  });
+
+  it('treats a CRLF split across chunks as one line break', () => {
+    const parser = new SseParser();
+    const events = [
+      ...parser.push('event: token\r'),
+      ...parser.push('\ndata: one\r'),
+      ...parser.push('\n\r'),
+      ...parser.push('\nevent: token\r\ndata: two\r\n\r\n'),
+    ];
+    expect(events).toEqual([
+      { event: 'token', data: 'one' },
+      { event: 'token', data: 'two' },
+    ]);
+  });
+
+  it('still accepts bare CR line endings', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: a\r\rdata: b\r')).toEqual([{ event: 'message', data: 'a' }]);
+    // A final CR can't be told from half a CRLF until the next chunk arrives.
+    expect(parser.push('\r')).toEqual([]);
+    expect(parser.push('data: c')).toEqual([{ event: 'message', data: 'b' }]);
+  });
+});
@@ -0,0 +1,41 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Incremental parser for a text/event-stream body. Feed it decoded text as
+ * it arrives; it returns the events completed by that chunk.
+ */
+export class SseParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+
+  push(chunk: string): ServerSentEvent[] {
+    this.buffer += chunk;
+    const events: ServerSentEvent[] = [];
+    let newline: number;
+    while ((newline = this.buffer.search(/\r\n|\r|\n/)) !== -1) {
+      // A CR at the end of the chunk may be the first half of a CRLF split
+      // across chunks; wait for the next one rather than end the line twice.
+      if (newline === this.buffer.length - 1 && this.buffer.endsWith('\r')) break;
+      const line = this.buffer.slice(0, newline);
+      const separatorLength = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+      this.buffer = this.buffer.slice(newline + separatorLength);
+
+      if (line === '') {
+        if (this.data.length > 0) events.push({ event: this.event || 'message', data: this.data.join('\n') });
+        this.event = '';
+        this.data = [];
+      } else if (!line.startsWith(':')) {
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') this.event = value;
+        else if (field === 'data') this.data.push(value);
+      }
+    }
+    return events;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { parseTflCsv, parseTflDate, splitCsv } from './tflCsv';
+
+const HEADER = 'Date,Start Time,End Time,Journey/Action,Charge,Credit,Balance,Note';
+
+describe('splitCsv', () => {
+  it('honours quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(splitCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('parseTflDate', () => {
+  it.each([
+    ['04-Nov-2025', '2025-11-04'],
+    ['4 November 2025', '2025-11-04'],
+    ['04-Nov-25', '2025-11-04'],
+    ['04/11/2025', '2025-11-04'],
+    ['2025-11-04', '2025-11-04'],
+  ])('reads %s', (value, expected) => {
+    expect(parseTflDate(value)).toBe(expected);
+  });
+
+  it.each(['31-Feb-2025', '04-Foo-2025', '11/04', ''])('rejects %j', value => {
+    expect(parseTflDate(value)).toBeNull();
+  });
+});
+
+describe('parseTflCsv', () => {
+  it('finds the header after a preamble and behind a byte order mark', () => {
+    const text = '\uFEFFJourney history for card ending 1234\n\n' + `${HEADER}\n04-Nov-2025,08:10,08:45,Bank to Stratford,2.80,,17.20,`;
+    const { journeys, issues } = parseTflCsv(text);
+    expect(issues).toEqual([]);
+    expect(journeys).toEqual([{
+      date: '2025-11-04',
+      startTime: '08:10',
+      endTime: '08:45',
+      description: 'Bank to Stratford',
+      charge: 2.8,
+      credit: 0,
+      balance: 17.2,
+      note: '',
+      sourceRow: 4,
+    }]);
+  });
+
+  it('matches columns by name, whatever their order and spelling', () => {
+    const text = '\uFEFFjourney / action, Fare ,Date,Start\nBus journey,1.75,05/11/2025,7:05';
+    expect(parseTflCsv(text).journeys).toMatchObject([
+      { date: '2025-11-05', startTime: '07:05', endTime: null, description: 'Bus journey', charge: 1.75 },
+    ]);
+  });
+
+  it('reports a missing header instead of guessing', () => {
+    const { journeys, issues } = parseTflCsv('When,Where,How much\n04-Nov-2025,Bank,2.80');
+    expect(journeys).toEqual([]);
+    expect(issues).toEqual([{ row: 0, message: expect.stringMatching(/no tfl journey-history header/i) }]);
+  });
+
+  it('reads charges with pound signs, thousands separators and signs', () => {
+    const text = [
+      HEADER,
+      '04-Nov-2025,08:10,08:45,Bank to Stratford,£2.80,,,',
+      '05-Nov-2025,,,Season ticket,"1,234.50",,,',
+      '06-Nov-2025,,,Refund,-3.10,,,',
+      '07-Nov-2025,,,Auto top-up,,£20.00,40.00,',
+    ].join('\n');
+    const { journeys, issues } = parseTflCsv(text);
+    expect(issues).toEqual([]);
+    expect(journeys.map(journey => [journey.charge, journey.credit])).toEqual([[2.8, 0], [1234.5, 0], [3.1, 0], [0, 20]]);
+  });
+
+  it('reports unreadable rows by row number and keeps the rest', () => {
+    const text = [
+      HEADER,
+      '04-Nov-2025,08:10,08:45,Bank to Stratford,2.80,,,',
+      '31-Feb-2025,08:10,08:45,Bank to Stratford,2.80,,,',
+      '05-Nov-2025,8am,08:45,Bank to Stratford,2.80,,,',
+      '06-Nov-2025,08:10,08:45,Bank to Stratford,two pounds,,,',
+    ].join('\n');
+    const { journeys, issues } = parseTflCsv(text);
+    expect(journeys.map(journey => journey.date)).toEqual(['2025-11-04']);
+    expect(issues.map(issue => issue.row)).toEqual([3, 4, 5]);
+  });
+
+  it('sorts journeys by date and start time', () => {
+    const text = [
+      HEADER,
+      '05-Nov-2025,18:00,18:30,Stratford to Bank,2.80,,,',
+      '05-Nov-2025,08:00,08:30,Bank to Stratford,2.80,,,',
+      '04-Nov-2025,08:00,08:30,Bank to Stratford,2.80,,,',
+    ].join('\n');
+    expect(parseTflCsv(text).journeys.map(journey => journey.sourceRow)).toEqual([4, 3, 2]);
+  });
+});
@@ -0,0 +1,184 @@
+import type { Journey, JourneyParseIssue, JourneyParseResult } from '../types';
+import { toISODate } from '../utils/dates';
+
+// Parses the journey-history CSV that TfL exports for Oyster and contactless
+// cards. Columns are matched by header name so reordered or extra columns
+// are tolerated; rows that can't be read are reported rather than dropped
+// silently.
+
+type Column = 'date' | 'startTime' | 'endTime' | 'description' | 'charge' | 'credit' | 'balance' | 'note';
+
+const HEADER_ALIASES: Record<Column, string[]> = {
+  date: ['date'],
+  startTime: ['start time', 'start'],
+  endTime: ['end time', 'end'],
+  description: ['journey/action', 'journey', 'action', 'journey / action'],
+  charge: ['charge', 'charge (gbp)', 'fare'],
+  credit: ['credit', 'credit (gbp)'],
+  balance: ['balance', 'balance (gbp)'],
+  note: ['note', 'notes'],
+};
+
+const REQUIRED_COLUMNS: Column[] = ['date', 'description', 'charge'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Splits CSV text into rows of fields, honouring quoted fields and escaped quotes. */
+export const splitCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const normaliseHeader = (value: string) => value.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const mapHeader = (cells: string[]): Partial<Record<Column, number>> | null => {
+  const mapping: Partial<Record<Column, number>> = {};
+  cells.forEach((cell, index) => {
+    const name = normaliseHeader(cell);
+    for (const column of Object.keys(HEADER_ALIASES) as Column[]) {
+      if (mapping[column] === undefined && HEADER_ALIASES[column].includes(name)) {
+        mapping[column] = index;
+        break;
+      }
+    }
+  });
+  return REQUIRED_COLUMNS.every(column => mapping[column] !== undefined) ? mapping : null;
+};
+
+/** Accepts 04-Nov-2025, 04 November 2025, 04/11/2025 and 2025-11-04. */
+export const parseTflDate = (value: string): string | null => {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  let match = text.match(/^(\d{1,2})[-\s]([A-Za-z]{3,9})[-\s](\d{2}|\d{4})$/);
+  if (match) {
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase());
+    year = Number(match[3].length === 2 ? `20${match[3]}` : match[3]);
+    if (month < 0) return null;
+  } else if ((match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    day = Number(match[1]);
+    month = Number(match[2]) - 1;
+    year = Number(match[3]);
+  } else if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    year = Number(match[1]);
+    month = Number(match[2]) - 1;
+    day = Number(match[3]);
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) return null;
+  return toISODate(date);
+};
+
+const parseTime = (value: string): string | null | undefined => {
+  const text = value.trim();
+  if (!text) return null;
+  const match = text.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return undefined;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+/** Returns 0 for an empty cell, NaN for anything that isn't an amount. */
+const parseAmount = (value: string): number => {
+  const text = value.trim().replace(/[£,\s]/g, '');
+  if (!text) return 0;
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return NaN;
+  return Number(text);
+};
+
+export const parseTflCsv = (text: string): JourneyParseResult => {
+  const rows = splitCsv(text);
+  const journeys: Journey[] = [];
+  const issues: JourneyParseIssue[] = [];
+
+  const headerIndex = rows.findIndex(row => mapHeader(row) !== null);
+  if (headerIndex === -1) {
+    return {
+      journeys,
+      issues: [{ row: 0, message: 'No TfL journey-history header found (expected Date, Journey/Action and Charge columns).' }],
+    };
+  }
+  const columns = mapHeader(rows[headerIndex])!;
+  const cell = (row: string[], column: Column) => {
+    const index = columns[column];
+    return index === undefined ? '' : (row[index] ?? '');
+  };
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const rowNumber = i + 1;
+    if (row.every(value => value.trim() === '')) continue;
+
+    const date = parseTflDate(cell(row, 'date'));
+    if (!date) {
+      issues.push({ row: rowNumber, message: `Unrecognised date "${cell(row, 'date')}".` });
+      continue;
+    }
+    const startTime = parseTime(cell(row, 'startTime'));
+    const endTime = parseTime(cell(row, 'endTime'));
+    if (startTime === undefined || endTime === undefined) {
+      issues.push({ row: rowNumber, message: 'Start or end time is not in HH:MM format.' });
+      continue;
+    }
+    const charge = parseAmount(cell(row, 'charge'));
+    const credit = parseAmount(cell(row, 'credit'));
+    if (Number.isNaN(charge) || Number.isNaN(credit)) {
+      issues.push({ row: rowNumber, message: 'Charge or credit is not a valid amount.' });
+      continue;
+    }
+    const balanceText = cell(row, 'balance').trim();
+    const balance = balanceText ? parseAmount(balanceText) : null;
+
+    journeys.push({
+      date,
+      startTime,
+      endTime,
+      description: cell(row, 'description').trim(),
+      charge: Math.abs(charge),
+      credit: Math.abs(credit),
+      balance: balance === null || Number.isNaN(balance) ? null : balance,
+      note: cell(row, 'note').trim(),
+      sourceRow: rowNumber,
+    });
+  }
+
+  journeys.sort((a, b) => a.date.localeCompare(b.date) || (a.startTime ?? '').localeCompare(b.startTime ?? ''));
+  return { journeys, issues };
+};
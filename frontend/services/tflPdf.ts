@@ -0,0 +1,106 @@
+import type { Journey, JourneyParseIssue, JourneyParseResult, PdfPageText } from '../types';
+import { extractPdfText, PdfExtractionError } from './pdfText';
+import type { PdfProgress } from './pdfText';
+import { parseTflDate } from './tflCsv';
+
+// Reads journeys out of TfL PDF statements. Two layouts are recognised:
+//
+//  * Oyster-style tables, where every row starts with its date:
+//      04-Nov-2025  08:02 - 08:41  Waterloo to Canary Wharf  2.80  17.20
+//  * Contactless statements, where a date heading is followed by that
+//    day's journeys:
+//      Tuesday, 04 November 2025
+//      08:02 - 08:41  Waterloo to Canary Wharf  £2.80
+
+const DATE_PATTERN =
+  /^(?:(?:mon|tues|wednes|thurs|fri|satur|sun)day,?\s+)?(\d{1,2}[-\s][A-Za-z]{3,9}[-\s]\d{2,4}|\d{1,2}\/\d{1,2}\/\d{4})\b\s*/i;
+const TIME_PATTERN = /^(\d{1,2}:\d{2})(?:\s*[-–]\s*(\d{1,2}:\d{2}))?\s*/;
+const AMOUNT_PATTERN = /\s*(-?£?-?\d{1,4}\.\d{2})$/;
+const CREDIT_PATTERN = /\b(top(?:ped)?[- ]?up|refund|credit|auto[- ]?top[- ]?up)\b/i;
+const SKIP_PATTERN = /\b(total|balance brought forward|page \d+ of \d+)\b/i;
+
+const padTime = (time: string | undefined) => (time ? time.padStart(5, '0') : null);
+
+const takeTrailingAmounts = (text: string) => {
+  const amounts: number[] = [];
+  let rest = text;
+  let match;
+  while (amounts.length < 3 && (match = rest.match(AMOUNT_PATTERN))) {
+    amounts.unshift(Math.abs(Number(match[1].replace(/£/g, ''))));
+    rest = rest.slice(0, match.index).trimEnd();
+  }
+  return { amounts, rest };
+};
+
+export const parseStatementPages = (pages: PdfPageText[]): JourneyParseResult => {
+  const journeys: Journey[] = [];
+  const issues: JourneyParseIssue[] = [];
+  let currentDate: string | null = null;
+  let lineNumber = 0;
+
+  for (const page of pages) {
+    for (const rawLine of page.lines) {
+      lineNumber++;
+      let line = rawLine.trim();
+
+      const dateMatch = line.match(DATE_PATTERN);
+      if (dateMatch) {
+        const date = parseTflDate(dateMatch[1].replace(/\s+/g, '-'));
+        if (!date) {
+          issues.push({ row: lineNumber, message: `Page ${page.pageNumber}: unrecognised date "${dateMatch[1]}".` });
+          continue;
+        }
+        currentDate = date;
+        line = line.slice(dateMatch[0].length);
+        if (!line) continue; // A day heading on its own.
+      }
+
+      if (!currentDate || SKIP_PATTERN.test(line)) continue;
+
+      const timeMatch = line.match(TIME_PATTERN);
+      const { amounts, rest } = takeTrailingAmounts(timeMatch ? line.slice(timeMatch[0].length) : line);
+      // Lines with neither a time nor an amount are headings or notes.
+      if (!timeMatch && amounts.length === 0) continue;
+      if (amounts.length === 0) {
+        issues.push({ row: lineNumber, message: `Page ${page.pageNumber}: no amount found in "${rawLine}".` });
+        continue;
+      }
+
+      const description = rest.replace(/\s{2,}/g, ' ').trim();
+      const isCredit = CREDIT_PATTERN.test(description);
+      // Tables list charge (or credit) then the running balance; statements
+      // without a balance column have just the one amount.
+      const [amount] = amounts;
+      const balance = amounts.length > 1 ? amounts[amounts.length - 1] : null;
+
+      journeys.push({
+        date: currentDate,
+        startTime: padTime(timeMatch?.[1]),
+        endTime: padTime(timeMatch?.[2]),
+        description,
+        charge: isCredit ? 0 : amount,
+        credit: isCredit ? amount : 0,
+        balance,
+        note: '',
+        sourceRow: lineNumber,
+        sourcePage: page.pageNumber,
+      });
+    }
+  }
+
+  journeys.sort((a, b) => a.date.localeCompare(b.date) || (a.startTime ?? '').localeCompare(b.startTime ?? ''));
+  return { journeys, issues };
+};
+
+/** Extracts journeys from a TfL PDF statement without leaving the browser. */
+export async function parseTflPdf(file: File, signal?: AbortSignal, onProgress?: PdfProgress): Promise<JourneyParseResult> {
+  const pages = await extractPdfText(file, signal, onProgress);
+  const result = parseStatementPages(pages);
+  if (result.journeys.length === 0) {
+    throw new PdfExtractionError(
+      'unrecognised',
+      "This PDF doesn't look like a TfL journey statement. Try the CSV export from your TfL account instead.",
+    );
+  }
+  return result;
+}
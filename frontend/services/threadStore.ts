@@ -0,0 +1,52 @@
+import type { ChatMessage, ChatThread, StoredDocument } from '../types';
+import { requestResult, withStores } from './indexedDb';
+import { treeFromMessages } from './messageTree';
+
+// Saved Document Assistant conversations and the files they used. Documents
+// are stored once by id and shared between threads; a document is deleted
+// when no thread refers to it any more.
+
+type StoredThread = ChatThread | (Omit<ChatThread, 'tree'> & { messages: ChatMessage[] });
+
+// Threads saved before messages could branch hold a flat list.
+const upgradeThread = (thread: StoredThread): ChatThread => {
+  if ('tree' in thread) return thread;
+  const { messages, ...rest } = thread;
+  return { ...rest, tree: treeFromMessages(messages) };
+};
+
+export const listThreads = (): Promise<ChatThread[]> =>
+  withStores(['threads'], 'readonly', async transaction => {
+    const threads = await requestResult(transaction.objectStore('threads').getAll() as IDBRequest<StoredThread[]>);
+    return threads.map(upgradeThread).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  });
+
+export const saveThread = (thread: ChatThread): Promise<void> =>
+  withStores(['threads'], 'readwrite', async transaction => {
+    await requestResult(transaction.objectStore('threads').put(thread));
+  });
+
+export const saveDocument = (document: StoredDocument): Promise<void> =>
+  withStores(['documents'], 'readwrite', async transaction => {
+    await requestResult(transaction.objectStore('documents').put(document));
+  });
+
+/** Loads the documents that are still stored; missing ids are skipped. */
+export const loadDocuments = (ids: string[]): Promise<StoredDocument[]> =>
+  withStores(['documents'], 'readonly', async transaction => {
+    const store = transaction.objectStore('documents');
+    const documents = await Promise.all(ids.map(id => requestResult(store.get(id) as IDBRequest<StoredDocument | undefined>)));
+    return documents.filter((document): document is StoredDocument => document !== undefined);
+  });
+
+/** Deletes a thread, then any stored documents no remaining thread uses. */
+export const deleteThread = (id: string): Promise<void> =>
+  withStores(['threads', 'documents'], 'readwrite', async transaction => {
+    const threads = transaction.objectStore('threads');
+    const documents = transaction.objectStore('documents');
+    await requestResult(threads.delete(id));
+    const remaining = await requestResult(threads.getAll() as IDBRequest<ChatThread[]>);
+    const inUse = new Set(remaining.flatMap(thread => thread.documents.map(document => document.id)));
+    const storedIds = await requestResult(documents.getAllKeys());
+    await Promise.all(storedIds.filter(key => !inUse.has(String(key))).map(key => requestResult(documents.delete(key))));
+  });
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseTranscript, transcriptToJson, TranscriptError } from './transcript';
+import { appendMessage, createTree } from './messageTree';
+import type { ChatMessage } from '../types';
+
+const reply: ChatMessage = {
+  role: 'assistant',
+  content: 'I can select those days for you.',
+  actions: [
+    { id: 'a1', action: { type: 'selectDates', dates: ['2026-10-01'] }, description: 'Select 1 Oct', status: 'pending' },
+    { id: 'a2', action: { type: 'calculate' }, description: 'Calculate', status: 'applied', result: 'Total: £2.80.' },
+  ],
+  traceId: 'trace-1',
+  feedback: { rating: 'down', category: 'wrong-amount', comment: 'Missed a day', delivery: 'sent' },
+};
+
+const exportThread = (message: ChatMessage) => {
+  let tree = createTree({ role: 'assistant', content: 'Hello' }, 'root');
+  tree = appendMessage(tree, 'root', 'q1', { role: 'user', content: 'Select 1 October' });
+  tree = appendMessage(tree, 'q1', 'r1', message);
+  return transcriptToJson({ title: 'October', createdAt: '2026-10-01T09:00:00.000Z', tree, documents: [] });
+};
+
+describe('parseTranscript', () => {
+  it('imports pending actions as dismissed so they cannot be applied', () => {
+    const { tree } = parseTranscript(exportThread(reply));
+    const [pending, applied] = tree.nodes.r1.message.actions ?? [];
+    expect(pending).toMatchObject({ id: 'a1', status: 'dismissed' });
+    expect(pending.result).toMatch(/imported/i);
+    expect(applied).toMatchObject({ status: 'applied', result: 'Total: £2.80.' });
+  });
+
+  it('keeps feedback and the trace id', () => {
+    const { message } = parseTranscript(exportThread(reply)).tree.nodes.r1;
+    expect(message.traceId).toBe('trace-1');
+    expect(message.feedback).toEqual(reply.feedback);
+  });
+
+  it('rejects actions the app does not allow', () => {
+    const json = exportThread(reply).replace('"selectDates"', '"deleteEverything"');
+    const [rejected] = parseTranscript(json).tree.nodes.r1.message.actions ?? [];
+    expect(rejected).toMatchObject({ action: null, status: 'rejected' });
+  });
+
+  it('refuses files that are not transcripts', () => {
+    expect(() => parseTranscript('{"hello":"world"}')).toThrow(TranscriptError);
+  });
+});
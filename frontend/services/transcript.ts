@@ -0,0 +1,234 @@
+import type { AnswerFeedback, ChatAction, ChatMessage, ChatSource, ChatThread, FeedbackCategory, MessageNode, MessageTree } from '../types';
+import { activePath } from './messageTree';
+import { validateCalculatorAction } from './calculatorActions';
+
+// Export and import of Document Assistant threads. Markdown is for reading
+// and shows the branch on screen; JSON is the complete, versioned record
+// (every branch, message metadata and document names) and can be imported.
+
+export const TRANSCRIPT_FORMAT = 'work-transport-assistant/transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: typeof TRANSCRIPT_VERSION;
+  exportedAt: string;
+  thread: Pick<ChatThread, 'title' | 'createdAt' | 'tree' | 'documents'>;
+}
+
+export class TranscriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptError';
+  }
+}
+
+export const transcriptFileName = (title: string, extension: 'md' | 'json') => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+};
+
+const describeLocation = (source: ChatSource) =>
+  source.page ? `page ${source.page}` : source.rows ? `rows ${source.rows.start}–${source.rows.end}` : '';
+
+const footnoteText = (source: ChatSource) => {
+  const snippet = source.snippet.replace(/\s+/g, ' ').trim();
+  const quoted = snippet.length > 200 ? `${snippet.slice(0, 200)}…` : snippet;
+  return [source.documentName, describeLocation(source)].filter(Boolean).join(', ') + (quoted ? ` — “${quoted}”` : '');
+};
+
+/** A readable transcript of the active branch, with each answer's sources as footnotes. */
+export const transcriptToMarkdown = (title: string, tree: MessageTree, documentNames: string[], exportedAt = new Date()): string => {
+  const footnotes: string[] = [];
+  const turns = activePath(tree)
+    .filter(node => node.id !== tree.rootId && node.message.content.trim())
+    .map(({ message }) => {
+      if (message.role === 'user') return `**You:** ${message.content.trim()}`;
+      const refs = (message.sources ?? []).map(source => {
+        footnotes.push(footnoteText(source));
+        return `[^${footnotes.length}]`;
+      });
+      const notes = [
+        message.retrievalOnly && '_Retrieval only: matching passages, no generated answer._',
+        message.status === 'stopped' && '_Stopped before the answer finished._',
+        message.status === 'error' && `_The answer ended with an error${message.error ? `: ${message.error}` : ''}._`,
+      ].filter(Boolean);
+      return [
+        '**Assistant:**',
+        message.content.trim(),
+        ...notes,
+        refs.length > 0 ? `Sources: ${refs.join(' ')}` : '',
+      ].filter(Boolean).join('\n\n');
+    });
+
+  const meta = `Exported ${exportedAt.toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}`
+    + (documentNames.length > 0 ? ` · Documents: ${documentNames.join(', ')}` : '');
+  return [
+    `# ${title}`,
+    meta,
+    '---',
+    ...turns,
+    ...(footnotes.length > 0 ? ['---', footnotes.map((note, i) => `[^${i + 1}]: ${note}`).join('\n')] : []),
+  ].join('\n\n') + '\n';
+};
+
+export const transcriptToJson = (thread: Transcript['thread'], exportedAt = new Date()): string => {
+  const transcript: Transcript = {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    thread: { title: thread.title, createdAt: thread.createdAt, tree: thread.tree, documents: thread.documents },
+  };
+  return JSON.stringify(transcript, null, 2);
+};
+
+const isRecord = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const MESSAGE_STATUSES = ['streaming', 'complete', 'stopped', 'error'];
+const ACTION_STATUSES = ['pending', 'applied', 'dismissed', 'rejected', 'failed'];
+const FEEDBACK_CATEGORIES: FeedbackCategory[] = ['wrong-amount', 'hallucinated-journey', 'missing-information', 'wrong-source', 'other'];
+
+const readSource = (data: unknown, where: string): ChatSource => {
+  if (!isRecord(data) || !isString(data.documentName) || !isString(data.snippet)) {
+    throw new TranscriptError(`${where} has a source without a document name and snippet.`);
+  }
+  const source: ChatSource = { documentName: data.documentName, snippet: data.snippet };
+  if (isPositiveInteger(data.page)) source.page = data.page;
+  if (isRecord(data.rows) && isPositiveInteger(data.rows.start) && isPositiveInteger(data.rows.end)) {
+    source.rows = { start: data.rows.start, end: data.rows.end };
+  }
+  if (typeof data.score === 'number' && Number.isFinite(data.score)) source.score = data.score;
+  return source;
+};
+
+const readAction = (data: unknown, where: string): ChatAction => {
+  if (!isRecord(data) || !isString(data.id) || !isString(data.description) || !ACTION_STATUSES.includes(data.status as string)) {
+    throw new TranscriptError(`${where} has a malformed action.`);
+  }
+  // Actions are re-validated, so an edited file can't smuggle in one the app doesn't allow.
+  const action = data.action === null ? null : validateCalculatorAction(data.action);
+  if (typeof action === 'string') return { id: data.id, action: null, description: data.description, status: 'rejected', result: action };
+  // Someone else's suggestions are for reading: an imported card never changes this calculator.
+  if (data.status === 'pending') {
+    return { id: data.id, action, description: data.description, status: 'dismissed', result: 'Imported from a transcript, so not applied here.' };
+  }
+  return {
+    id: data.id,
+    action,
+    description: data.description,
+    status: data.status as ChatAction['status'],
+    ...(isString(data.result) ? { result: data.result } : {}),
+  };
+};
+
+/** The rating given to a reply, or undefined if the file's feedback isn't usable. */
+const readFeedback = (data: unknown): AnswerFeedback | undefined => {
+  if (!isRecord(data) || (data.rating !== 'up' && data.rating !== 'down')) return undefined;
+  const feedback: AnswerFeedback = { rating: data.rating, delivery: data.delivery === 'queued' ? 'queued' : 'sent' };
+  const category = FEEDBACK_CATEGORIES.find(value => value === data.category);
+  if (category) feedback.category = category;
+  if (isString(data.comment)) feedback.comment = data.comment;
+  return feedback;
+};
+
+/** Checks one message and copies only the fields the app knows about. */
+const readMessage = (data: unknown, where: string): ChatMessage => {
+  if (!isRecord(data) || (data.role !== 'user' && data.role !== 'assistant') || !isString(data.content)) {
+    throw new TranscriptError(`${where} needs a role of "user" or "assistant" and text content.`);
+  }
+  const message: ChatMessage = { role: data.role, content: data.content };
+  if (data.status !== undefined) {
+    if (!MESSAGE_STATUSES.includes(data.status as string)) throw new TranscriptError(`${where} has an unknown status.`);
+    // A reply that was still streaming when exported can't resume.
+    message.status = data.status === 'streaming' ? 'stopped' : (data.status as ChatMessage['status']);
+  }
+  if (isString(data.error)) message.error = data.error;
+  if (data.sources !== undefined) {
+    if (!Array.isArray(data.sources)) throw new TranscriptError(`${where} has sources that aren't a list.`);
+    message.sources = data.sources.map(source => readSource(source, where));
+  }
+  if (data.retrievalOnly === true) message.retrievalOnly = true;
+  if (data.actions !== undefined) {
+    if (!Array.isArray(data.actions)) throw new TranscriptError(`${where} has actions that aren't a list.`);
+    message.actions = data.actions.map(action => readAction(action, where));
+  }
+  if (isString(data.traceId)) message.traceId = data.traceId;
+  const feedback = readFeedback(data.feedback);
+  if (feedback) message.feedback = feedback;
+  return message;
+};
+
+const readTree = (data: unknown): MessageTree => {
+  if (!isRecord(data) || !isString(data.rootId) || !isRecord(data.nodes) || !isRecord(data.selectedChild)) {
+    throw new TranscriptError('The conversation is missing its messages.');
+  }
+  const ids = Object.keys(data.nodes);
+  if (!ids.includes(data.rootId)) throw new TranscriptError('The conversation has no first message.');
+
+  const nodes: Record<string, MessageNode> = {};
+  for (const id of ids) {
+    const node = data.nodes[id];
+    const where = `Message ${id}`;
+    if (!isRecord(node) || node.id !== id || !Array.isArray(node.childIds) || !node.childIds.every(isString)) {
+      throw new TranscriptError(`${where} is malformed.`);
+    }
+    const parentId = node.parentId;
+    if (id === data.rootId ? parentId !== null : !isString(parentId) || !ids.includes(parentId)) {
+      throw new TranscriptError(`${where} isn't connected to the conversation.`);
+    }
+    nodes[id] = { id, parentId: parentId as string | null, childIds: node.childIds as string[], message: readMessage(node.message, where) };
+  }
+
+  // Every node must be reachable exactly once from the root, i.e. a real tree.
+  const seen = new Set<string>();
+  const stack = [data.rootId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) throw new TranscriptError('The conversation refers to a message more than once.');
+    seen.add(id);
+    for (const childId of nodes[id].childIds) {
+      if (nodes[childId]?.parentId !== id) throw new TranscriptError('The conversation\'s branches are inconsistent.');
+      stack.push(childId);
+    }
+  }
+  if (seen.size !== ids.length) throw new TranscriptError('Some messages aren\'t connected to the conversation.');
+
+  const selectedChild: Record<string, string> = {};
+  for (const [parentId, childId] of Object.entries(data.selectedChild)) {
+    if (isString(childId) && nodes[parentId]?.childIds.includes(childId)) selectedChild[parentId] = childId;
+  }
+  return { rootId: data.rootId, nodes, selectedChild };
+};
+
+/** Parses and validates an exported JSON transcript, throwing a TranscriptError explaining any problem. */
+export const parseTranscript = (text: string): Transcript['thread'] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptError('This file isn\'t valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== TRANSCRIPT_FORMAT) {
+    throw new TranscriptError('This file isn\'t a Document Assistant transcript.');
+  }
+  if (data.version !== TRANSCRIPT_VERSION) {
+    throw new TranscriptError(`Transcript version ${String(data.version)} isn't supported; this app reads version ${TRANSCRIPT_VERSION}.`);
+  }
+  const thread = data.thread;
+  if (!isRecord(thread) || !isString(thread.title) || !isString(thread.createdAt) || !Array.isArray(thread.documents)) {
+    throw new TranscriptError('The transcript is missing its title, date or documents.');
+  }
+  const documents = thread.documents.map(document => {
+    if (!isRecord(document) || !isString(document.id) || !isString(document.name)) {
+      throw new TranscriptError('The transcript lists a document without an id and name.');
+    }
+    return { id: document.id, name: document.name };
+  });
+  return { title: thread.title.trim() || 'Imported thread', createdAt: thread.createdAt, tree: readTree(thread.tree), documents };
+};
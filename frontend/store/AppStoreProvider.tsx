@@ -0,0 +1,162 @@
+import React, { createContext, useCallback, useContext, useEffect, useReducer, useRef, useState } from 'react';
+import { appReducer, createInitialState, hasWork } from './appStore';
+import type { AppAction } from './appStore';
+import { clearSession, loadSession, saveSession } from '../services/sessionStore';
+import { decodeClaimLink } from '../services/claimLink';
+import { deleteClaim, listClaims, saveClaim } from '../services/claimStore';
+import type { AppState, ClaimRecord, WorkSession } from '../types';
+
+const AppStateContext = createContext<AppState | null>(null);
+const AppDispatchContext = createContext<React.Dispatch<AppAction> | null>(null);
+
+const ALWAYS_REDACT_KEY = 'alwaysRedact';
+// Typing into the chat box or clicking through the calendar is saved once it settles.
+const AUTOSAVE_DELAY_MS = 1000;
+
+let lastToastId = 0;
+
+const readAlwaysRedact = () => {
+  try {
+    return JSON.parse(localStorage.getItem(ALWAYS_REDACT_KEY) ?? 'false') === true;
+  } catch {
+    return false;
+  }
+};
+
+const showError = (dispatch: React.Dispatch<AppAction>, message: string) =>
+  dispatch({ type: 'toastShown', toast: { id: ++lastToastId, message, type: 'error' } });
+
+const persistSession = (session: WorkSession) =>
+  hasWork(session) ? saveSession({ ...session, savedAt: new Date().toISOString() }) : clearSession();
+
+/**
+ * Holds the app-wide state and keeps the working session in IndexedDB. A
+ * session left by an earlier visit is offered back rather than loaded, and
+ * nothing is autosaved until the user has restored or discarded it.
+ */
+export const AppStoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, dispatch] = useReducer(
+    appReducer,
+    undefined,
+    () => createInitialState(readAlwaysRedact(), decodeClaimLink(window.location.hash)),
+  );
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const pendingSaveRef = useRef<WorkSession | null>(null);
+  const saveFailedRef = useRef(false);
+  // The claims as last written to IndexedDB; null until they have been read from it.
+  const storedClaimsRef = useRef<ClaimRecord[] | null>(null);
+  const claimsFailedRef = useRef(false);
+  const { calculator, chat, restorableSession, alwaysRedact, claims } = state;
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(ALWAYS_REDACT_KEY, JSON.stringify(alwaysRedact));
+    } catch {
+      // Storage can be full or disabled; the setting still applies for this session.
+    }
+  }, [alwaysRedact]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSession()
+      .then(session => {
+        if (!cancelled && session && hasWork(session)) dispatch({ type: 'sessionFound', session });
+      })
+      .catch(console.error)
+      .finally(() => !cancelled && setSessionChecked(true));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    listClaims()
+      .then(stored => {
+        if (cancelled) return;
+        storedClaimsRef.current = stored;
+        dispatch({ type: 'claimsLoaded', claims: stored });
+      })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) storedClaimsRef.current = [];
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Claims are written as they change: every record that isn't the stored object is saved.
+  useEffect(() => {
+    const stored = storedClaimsRef.current;
+    if (!stored) return;
+    storedClaimsRef.current = claims;
+    const reportError = (error: unknown) => {
+      console.error(error);
+      if (claimsFailedRef.current) return;
+      claimsFailedRef.current = true;
+      showError(dispatch, 'Your claims history could not be saved on this device, so it will be lost on reload.');
+    };
+    for (const claim of claims) {
+      if (!stored.includes(claim)) saveClaim(claim).catch(reportError);
+    }
+    for (const claim of stored) {
+      if (!claims.some(c => c.id === claim.id)) deleteClaim(claim.id).catch(reportError);
+    }
+  }, [claims]);
+
+  const flushSave = useCallback(() => {
+    const session = pendingSaveRef.current;
+    if (!session) return;
+    pendingSaveRef.current = null;
+    persistSession(session).catch(error => {
+      console.error(error);
+      if (saveFailedRef.current) return;
+      saveFailedRef.current = true;
+      showError(dispatch, 'Your work could not be saved on this device, so it won\'t be restored after a reload.');
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!sessionChecked || restorableSession) return;
+    pendingSaveRef.current = { calculator, chat };
+    const timer = setTimeout(flushSave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionChecked, restorableSession, calculator, chat, flushSave]);
+
+  // Don't lose the last second of work when the tab is closed.
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSave);
+    return () => window.removeEventListener('pagehide', flushSave);
+  }, [flushSave]);
+
+  return (
+    <AppDispatchContext.Provider value={dispatch}>
+      <AppStateContext.Provider value={state}>{children}</AppStateContext.Provider>
+    </AppDispatchContext.Provider>
+  );
+};
+
+export function useAppState(): AppState {
+  const state = useContext(AppStateContext);
+  if (!state) throw new Error('useAppState must be used inside AppStoreProvider.');
+  return state;
+}
+
+export function useAppDispatch(): React.Dispatch<AppAction> {
+  const dispatch = useContext(AppDispatchContext);
+  if (!dispatch) throw new Error('useAppDispatch must be used inside AppStoreProvider.');
+  return dispatch;
+}
+
+export function useAppSelector<T>(selector: (state: AppState) => T): T {
+  return selector(useAppState());
+}
+
+/** A stable showToast, for components and the props of their children. */
+export function useShowToast() {
+  const dispatch = useAppDispatch();
+  return useCallback((message: string, type: 'success' | 'error') => {
+    dispatch({ type: 'toastShown', toast: { id: ++lastToastId, message, type } });
+  }, [dispatch]);
+}
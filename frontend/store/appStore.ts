@@ -0,0 +1,183 @@
+import type { AppState, CalculatorSession, ClaimLink, ClaimRecord, FareBreakdown, FareOptions, SavedSession, Toast, WorkSession } from '../types';
+import { claimForDates } from '../services/fareEngine';
+import { fromISODate, toISODate } from '../utils/dates';
+
+// The app-wide state shared by the Transport Calculator, the Document
+// Assistant and the shell: a plain reducer, so every change is an action
+// and the working session can be saved and restored as a whole.
+
+export type AppAction =
+  | { type: 'toastShown'; toast: Toast }
+  | { type: 'toastDismissed'; id: number }
+  | { type: 'datesChanged'; dates: Date[] }
+  | { type: 'invoiceUploaded'; file: File }
+  | { type: 'invoiceRemoved' }
+  | { type: 'chatSharingChanged'; enabled: boolean }
+  | { type: 'fareOptionsChanged'; options: Partial<FareOptions> }
+  | { type: 'calculationStarted' }
+  | { type: 'claimCalculated'; totalCost: number; fareBreakdown: FareBreakdown | null; capSavings: number }
+  | { type: 'calculatorCleared' }
+  | { type: 'visibleMonthChanged'; month: string }
+  | { type: 'claimLinkOpened'; link: ClaimLink }
+  | { type: 'claimsLoaded'; claims: ClaimRecord[] }
+  | { type: 'claimRecorded'; claim: ClaimRecord; updateOnly?: boolean }
+  | { type: 'claimUpdated'; claim: ClaimRecord }
+  | { type: 'claimDeleted'; id: string }
+  | { type: 'activeThreadChanged'; id: string | null }
+  | { type: 'draftChanged'; draft: string }
+  | { type: 'alwaysRedactChanged'; value: boolean }
+  | { type: 'sessionFound'; session: SavedSession }
+  | { type: 'sessionRestored' }
+  | { type: 'sessionDiscarded' };
+
+const emptyCalculator: CalculatorSession = {
+  selectedDates: [],
+  invoiceFile: null,
+  shareInvoiceWithChat: false,
+  fareOptions: { zones: '1-2' },
+  totalCost: null,
+  fareBreakdown: null,
+  capSavings: 0,
+  visibleMonth: toISODate(new Date()).slice(0, 7),
+  recordedClaimId: null,
+};
+
+const withoutResults = (calculator: CalculatorSession): CalculatorSession => ({
+  ...calculator,
+  totalCost: null,
+  fareBreakdown: null,
+  capSavings: 0,
+});
+
+// A local breakdown covers every day in the invoice, so the total can follow
+// the selection; a backend total was for the old days only.
+const withDates = (calculator: CalculatorSession, dates: Date[]): CalculatorSession => {
+  const { fareBreakdown } = calculator;
+  if (!fareBreakdown) return { ...withoutResults(calculator), selectedDates: dates };
+  const claim = claimForDates(fareBreakdown, dates.map(toISODate));
+  return { ...calculator, selectedDates: dates, totalCost: claim.cost, capSavings: Math.round((claim.charged - claim.cost) * 100) / 100 };
+};
+
+// A link replaces the selection and options. Results stay only while the
+// options they were worked out with do, as with any other date change.
+const openClaimLink = (calculator: CalculatorSession, link: ClaimLink): CalculatorSession => {
+  const fareOptions = { ...calculator.fareOptions, ...link.fareOptions };
+  const optionsChanged = fareOptions.zones !== calculator.fareOptions.zones;
+  return {
+    ...withDates(optionsChanged ? withoutResults(calculator) : calculator, link.dates.map(fromISODate)),
+    fareOptions,
+    visibleMonth: link.month || calculator.visibleMonth,
+    recordedClaimId: null,
+  };
+};
+
+/** The starting state, opened at the claim link the page was loaded with, if any. */
+export const createInitialState = (alwaysRedact: boolean, link: ClaimLink | null = null): AppState => ({
+  calculator: link ? openClaimLink(emptyCalculator, link) : emptyCalculator,
+  chat: { activeThreadId: null, draft: '' },
+  toasts: [],
+  alwaysRedact,
+  restorableSession: null,
+  claims: [],
+});
+
+const updateCalculator = (state: AppState, calculator: CalculatorSession): AppState => ({ ...state, calculator });
+
+export function appReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case 'toastShown':
+      return { ...state, toasts: [...state.toasts, action.toast] };
+    case 'toastDismissed':
+      return { ...state, toasts: state.toasts.filter(toast => toast.id !== action.id) };
+    case 'datesChanged':
+      return updateCalculator(state, withDates(state.calculator, action.dates));
+    case 'invoiceUploaded':
+      return updateCalculator(state, { ...withoutResults(state.calculator), invoiceFile: action.file });
+    case 'invoiceRemoved':
+      return updateCalculator(state, { ...state.calculator, invoiceFile: null });
+    case 'chatSharingChanged':
+      return updateCalculator(state, { ...state.calculator, shareInvoiceWithChat: action.enabled });
+    case 'fareOptionsChanged':
+      return updateCalculator(state, {
+        ...withoutResults(state.calculator),
+        fareOptions: { ...state.calculator.fareOptions, ...action.options },
+      });
+    case 'calculationStarted':
+      return updateCalculator(state, withoutResults(state.calculator));
+    case 'claimCalculated':
+      return updateCalculator(state, {
+        ...state.calculator,
+        totalCost: action.totalCost,
+        fareBreakdown: action.fareBreakdown,
+        capSavings: action.capSavings,
+      });
+    case 'calculatorCleared':
+      // Fare options are a preference rather than part of one claim.
+      return updateCalculator(state, {
+        ...emptyCalculator,
+        fareOptions: state.calculator.fareOptions,
+        visibleMonth: state.calculator.visibleMonth,
+      });
+    case 'visibleMonthChanged':
+      return updateCalculator(state, { ...state.calculator, visibleMonth: action.month });
+    case 'claimLinkOpened':
+      return updateCalculator(state, openClaimLink(state.calculator, action.link));
+    case 'activeThreadChanged':
+      return { ...state, chat: { ...state.chat, activeThreadId: action.id } };
+    case 'draftChanged':
+      return { ...state, chat: { ...state.chat, draft: action.draft } };
+    case 'alwaysRedactChanged':
+      return { ...state, alwaysRedact: action.value };
+    case 'sessionFound':
+      return { ...state, restorableSession: action.session };
+    case 'sessionRestored': {
+      const session = state.restorableSession;
+      if (!session) return state;
+      // Sessions saved before a field was added get its default.
+      return { ...state, calculator: { ...emptyCalculator, ...session.calculator }, chat: session.chat, restorableSession: null };
+    }
+    case 'sessionDiscarded':
+      return { ...state, restorableSession: null };
+    case 'claimsLoaded':
+      return { ...state, claims: [...state.claims, ...action.claims.filter(claim => !state.claims.some(c => c.id === claim.id))] };
+    case 'claimRecorded': {
+      // Recalculating replaces the calculation's entry until it has been submitted; after that it starts a new one.
+      const current = state.claims.find(claim => claim.id === state.calculator.recordedClaimId && claim.status === 'calculated');
+      if (!current && action.updateOnly) return state;
+      const claim = current ? { ...action.claim, id: current.id } : action.claim;
+      return {
+        ...state,
+        claims: [claim, ...state.claims.filter(c => c.id !== claim.id)],
+        calculator: { ...state.calculator, recordedClaimId: claim.id },
+      };
+    }
+    case 'claimUpdated':
+      return { ...state, claims: state.claims.map(claim => (claim.id === action.claim.id ? action.claim : claim)) };
+    case 'claimDeleted':
+      return {
+        ...state,
+        claims: state.claims.filter(claim => claim.id !== action.id),
+        calculator: state.calculator.recordedClaimId === action.id ? { ...state.calculator, recordedClaimId: null } : state.calculator,
+      };
+  }
+}
+
+// Selectors
+
+/** The invoice the Document Assistant may use, when the user has chosen to share it. */
+export const selectSharedInvoice = (state: AppState): File | null =>
+  state.calculator.shareInvoiceWithChat ? state.calculator.invoiceFile : null;
+
+export const selectWorkSession = (state: AppState): WorkSession => ({ calculator: state.calculator, chat: state.chat });
+
+/** Whether a session holds anything worth offering back after a reload. */
+export const hasWork = ({ calculator, chat }: WorkSession): boolean =>
+  calculator.selectedDates.length > 0 || calculator.invoiceFile !== null || chat.activeThreadId !== null || chat.draft.trim() !== '';
+
+/** A one-line description of a saved session, e.g. "12 days selected · invoice.csv · £48.20". */
+export const describeSession = ({ calculator, chat }: WorkSession): string => [
+  calculator.selectedDates.length > 0 && `${calculator.selectedDates.length} day${calculator.selectedDates.length === 1 ? '' : 's'} selected`,
+  calculator.invoiceFile?.name,
+  calculator.totalCost !== null && `£${calculator.totalCost.toFixed(2)}`,
+  chat.activeThreadId && 'an open conversation',
+].filter(Boolean).join(' · ');
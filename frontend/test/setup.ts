@@ -0,0 +1,6 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Tests import their helpers from vitest rather than using globals, so
+// Testing Library can't register its own cleanup.
+afterEach(cleanup);
@@ -1,7 +1,25 @@
 
+/** A passage the assistant drew on, as cited by the backend. */
+export interface ChatSource {
+  documentName: string;
+  page?: number; // 1-based, for PDFs
+  rows?: { start: number; end: number }; // 1-based line numbers, inclusive, for CSVs
+  snippet: string;
+  score?: number; // retrieval relevance, 0–1
+}
+
+export type ChatMessageStatus = 'streaming' | 'complete' | 'stopped' | 'error';
+
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  status?: ChatMessageStatus; // assistant replies only; absent means complete
+  error?: string; // why a reply with status 'error' ended early
+  sources?: ChatSource[];
+  retrievalOnly?: boolean; // passages found locally, with no generated answer
+  actions?: ChatAction[]; // calculator actions proposed in this reply
+  traceId?: string; // the backend's trace for this reply, used to link feedback
+  feedback?: AnswerFeedback;
 }
 
 export interface Toast {
@@ -9,3 +27,353 @@ export interface Toast {
   message: string;
   type: 'success' | 'error';
 }
+
+export interface TransportCalculateRequest {
+  file: File;
+  dates: string[]; // YYYY-MM-DD
+}
+
+export interface TransportCalculateResponse {
+  totalCost: number;
+}
+
+export interface ChatRequest {
+  message: string;
+  files: File[];
+  context?: RetrievedPassage[]; // passages found locally, offered as candidate context
+  history?: ChatHistoryEntry[]; // earlier turns on the active branch, oldest first
+}
+
+export type ApiErrorKind = 'network' | 'timeout' | 'aborted' | 'http' | 'invalid-response' | 'interrupted';
+
+export interface Journey {
+  date: string; // YYYY-MM-DD, the day the journey started
+  startTime: string | null; // HH:MM
+  endTime: string | null; // HH:MM
+  description: string;
+  charge: number;
+  credit: number;
+  balance: number | null;
+  note: string;
+  sourceRow: number; // 1-based line in the source file
+  sourcePage?: number; // set for journeys read from a PDF
+}
+
+export interface JourneyParseIssue {
+  row: number;
+  message: string;
+}
+
+export interface JourneyParseResult {
+  journeys: Journey[];
+  issues: JourneyParseIssue[];
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  lines: string[];
+}
+
+export type ZoneBand = '1-2' | '1-3' | '1-4' | '1-5' | '1-6';
+
+export interface FareCap {
+  daily: number;
+  weekly: number;
+}
+
+/** A set of pay-as-you-go caps, loaded from data/fares. */
+export interface FareTable {
+  version: string;
+  name: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  travelDayStartsAt: string; // HH:MM, journeys before this count towards the previous day
+  bus: FareCap;
+  zones: Record<ZoneBand, FareCap>;
+}
+
+export interface FareOptions {
+  zones: ZoneBand;
+}
+
+export interface DayFare {
+  date: string; // travel day, YYYY-MM-DD
+  journeys: Journey[];
+  charged: number; // sum of the journey charges
+  dailyCap: number;
+  afterDailyCap: number;
+  cost: number; // share of the week's capped total
+  cappedBy: 'daily' | 'weekly' | null;
+  tableVersion: string;
+}
+
+export interface WeekFare {
+  weekStart: string; // Monday, YYYY-MM-DD
+  dates: string[];
+  afterDailyCaps: number;
+  weeklyCap: number;
+  total: number;
+}
+
+export interface FareBreakdown {
+  days: Record<string, DayFare>;
+  weeks: WeekFare[];
+  total: number;
+}
+
+export interface UnclaimedTravelDay {
+  date: string; // YYYY-MM-DD
+  journeys: Journey[];
+  charged: number;
+}
+
+export interface UnmatchedWorkDay {
+  date: string; // YYYY-MM-DD
+  outsideInvoicePeriod: boolean;
+}
+
+export interface ReconciliationReport {
+  unclaimedTravel: UnclaimedTravelDay[];
+  workDaysWithoutTravel: UnmatchedWorkDay[];
+}
+
+export interface CalendarDaySummary {
+  total: number; // sum of the day's charges
+  journeys: Journey[];
+}
+
+export type BankHolidayRegion = 'england-and-wales' | 'scotland' | 'northern-ireland';
+
+export interface CalendarEventOccurrence {
+  date: string; // YYYY-MM-DD
+  summary: string;
+  location: string;
+}
+
+export interface ClaimDay {
+  date: string; // YYYY-MM-DD
+  journeys: Journey[];
+  charged: number | null; // null when the invoice was only read by the backend
+  capAdjustment: number | null;
+  claimed: number | null;
+}
+
+export interface ExpenseClaim {
+  claimant: string;
+  periodStart: string;
+  periodEnd: string;
+  invoiceName: string;
+  fareOptions: FareOptions | null;
+  generatedAt: string; // ISO timestamp
+  days: ClaimDay[];
+  totalCharged: number | null;
+  totalCapAdjustment: number | null;
+  totalClaimed: number;
+}
+
+/** Where a claim has got to: worked out, sent to the employer, or paid back. */
+export type ClaimStatus = 'calculated' | 'submitted' | 'reimbursed';
+
+/** A completed calculation, kept on the device after the calculator is cleared. */
+export interface ClaimRecord {
+  id: string;
+  calculatedAt: string; // ISO timestamp
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+  dates: string[]; // YYYY-MM-DD
+  totalCost: number;
+  /** The total split by month (YYYY-MM): from the day fares when known, otherwise by days claimed. */
+  monthlyCosts: Record<string, number>;
+  invoiceName: string;
+  status: ClaimStatus;
+  submittedAt: string | null;
+  reimbursedAt: string | null;
+}
+
+export type ChatDocumentStatus = 'parsing' | 'indexed' | 'failed';
+
+/** A file in the Document Assistant's library. */
+export interface ChatDocument {
+  id: string;
+  file: File;
+  origin: 'upload' | 'invoice'; // 'invoice' is shared from the Transport Calculator
+  status: ChatDocumentStatus;
+  error?: string;
+  progress?: { done: number; total: number }; // PDF pages read while 'parsing'
+  text?: string; // extracted once status is 'indexed'
+  inScope: boolean;
+}
+
+/** A passage of a document's text, the unit the local search index works on. */
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  text: string;
+  page?: number;
+  rows?: { start: number; end: number }; // CSV line numbers, header is line 1
+}
+
+export interface RetrievedPassage extends DocumentChunk {
+  score: number;
+}
+
+/** A document kept with a thread, so the thread can be reopened without uploading it again. */
+export interface StoredDocument {
+  id: string;
+  file: File;
+  text: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  titleEdited: boolean; // once renamed, the title is no longer generated
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  tree: MessageTree;
+  documents: { id: string; name: string }[];
+}
+
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  childIds: string[]; // alternate continuations, oldest first
+  message: ChatMessage;
+}
+
+/**
+ * A conversation with its edits and regenerations kept as branches. The
+ * active path runs from the root through each node's selected child.
+ */
+export interface MessageTree {
+  rootId: string;
+  nodes: Record<string, MessageNode>;
+  selectedChild: Record<string, string>; // parent id -> child id on the active path
+}
+
+/** A previous turn sent to the backend alongside a question. */
+export interface ChatHistoryEntry {
+  role: ChatMessage['role'];
+  content: string;
+}
+
+/** Something the assistant may ask the Transport Calculator to do. Dates are YYYY-MM-DD. */
+export type CalculatorAction =
+  | { type: 'selectDates'; dates: string[] }
+  | { type: 'deselectDates'; dates: string[] }
+  | { type: 'clearDates'; month?: string } // YYYY-MM, or every selected date when absent
+  | { type: 'calculate' }
+  | { type: 'exportClaim'; format: 'csv' | 'html' };
+
+export type CalculatorActionType = CalculatorAction['type'];
+
+// 'rejected' actions were malformed or not allowed and can't be applied;
+// 'failed' ones were tried but the calculator couldn't carry them out.
+export type ChatActionStatus = 'pending' | 'applied' | 'dismissed' | 'rejected' | 'failed';
+
+/** An action card in the chat, waiting for (or past) the user's confirmation. */
+export interface ChatAction {
+  id: string;
+  action: CalculatorAction | null; // null when rejected
+  description: string;
+  status: ChatActionStatus;
+  result?: string; // outcome, or why it was rejected or failed
+}
+
+export interface CalculatorActionResult {
+  ok: boolean;
+  message: string;
+}
+
+/** What the Transport Calculator exposes so confirmed chat actions can drive it. */
+export interface CalculatorController {
+  runAction: (action: CalculatorAction) => Promise<CalculatorActionResult>;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackCategory = 'wrong-amount' | 'hallucinated-journey' | 'missing-information' | 'wrong-source' | 'other';
+
+/** Feedback the user gave on an answer, as remembered on the message. */
+export interface AnswerFeedback {
+  rating: FeedbackRating;
+  category?: FeedbackCategory;
+  comment?: string;
+  delivery: 'sent' | 'queued'; // queued feedback is sent once the backend is reachable
+}
+
+/** Body of a POST to /api/feedback, which the backend records as a Langfuse score. */
+export interface FeedbackRequest {
+  id: string; // lets the backend ignore a retried submission
+  traceId?: string;
+  messageId: string;
+  rating: FeedbackRating;
+  category?: FeedbackCategory;
+  comment?: string;
+  createdAt: string;
+}
+
+export type PiiKind = 'name' | 'postcode' | 'email' | 'phone' | 'card' | 'oyster' | 'custom'; // 'custom' is text the user chose
+
+/** A piece of text to hide, wherever it occurs in a document. */
+export interface Redaction {
+  kind: PiiKind;
+  text: string;
+}
+
+/** What to do with a document before it leaves the browser: the redactions to apply, or null to send it unchanged. */
+export type RedactionDecision = Redaction[] | null;
+
+/** A document about to be sent to the backend, with its extracted text for the redaction preview. */
+export interface RedactionDocument {
+  id: string;
+  file: File;
+  text: string;
+  error?: string; // why no text could be read, when it couldn't
+}
+
+/** The Transport Calculator's working state: what a half-finished claim needs to carry on. */
+export interface CalculatorSession {
+  selectedDates: Date[];
+  invoiceFile: File | null;
+  shareInvoiceWithChat: boolean;
+  fareOptions: FareOptions;
+  totalCost: number | null;
+  fareBreakdown: FareBreakdown | null;
+  capSavings: number; // how much daily and weekly caps took off the selected days
+  visibleMonth: string; // YYYY-MM, the month the calendar is showing
+  recordedClaimId: string | null; // the claims history entry for this calculation, while it's being worked on
+}
+
+/** A claim period shared as a link: the selection and options, never the invoice itself. */
+export interface ClaimLink {
+  month: string; // YYYY-MM
+  dates: string[]; // YYYY-MM-DD
+  fareOptions: Partial<FareOptions>;
+  hasInvoice: boolean; // the sender had an invoice loaded, so the recipient needs to upload one
+}
+
+/** The Document Assistant's working state; its messages are kept with the saved thread. */
+export interface ChatSession {
+  activeThreadId: string | null;
+  draft: string;
+}
+
+/** Everything autosaved so the session can be restored after the tab is closed. */
+export interface WorkSession {
+  calculator: CalculatorSession;
+  chat: ChatSession;
+}
+
+export interface SavedSession extends WorkSession {
+  savedAt: string;
+}
+
+export interface AppState extends WorkSession {
+  toasts: Toast[];
+  alwaysRedact: boolean;
+  /** A session saved by an earlier visit, until the user restores or discards it. */
+  restorableSession: SavedSession | null;
+  /** Every calculation kept in the claims history, most recent first. */
+  claims: ClaimRecord[];
+}
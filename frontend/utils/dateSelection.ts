@@ -0,0 +1,49 @@
+import { toISODate } from './dates';
+
+// Helpers for building up a set of selected days. Selections are plain
+// Date arrays, kept sorted and free of duplicates, and may span any number
+// of months.
+
+export const sortDates = (dates: Date[]) => [...dates].sort((a, b) => a.getTime() - b.getTime());
+
+/** Every day from `start` to `end` inclusive, in either order. */
+export const daysBetween = (start: Date, end: Date): Date[] => {
+  const [from, to] = start <= end ? [start, end] : [end, start];
+  const days: Date[] = [];
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (cursor <= to) {
+    days.push(new Date(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
+
+export const daysInMonth = (month: Date) =>
+  daysBetween(
+    new Date(month.getFullYear(), month.getMonth(), 1),
+    new Date(month.getFullYear(), month.getMonth() + 1, 0),
+  );
+
+export const isWeekday = (date: Date) => date.getDay() !== 0 && date.getDay() !== 6;
+
+export const addDates = (selected: Date[], additions: Date[]) => {
+  const byKey = new Map(selected.map(date => [toISODate(date), date]));
+  for (const date of additions) byKey.set(toISODate(date), date);
+  return sortDates([...byKey.values()]);
+};
+
+export const removeDates = (selected: Date[], removals: Date[]) => {
+  const keys = new Set(removals.map(toISODate));
+  return selected.filter(date => !keys.has(toISODate(date)));
+};
+
+/** Flips the selection state of every day in `days`. */
+export const toggleDates = (selected: Date[], days: Date[]) => {
+  const selectedKeys = new Set(selected.map(toISODate));
+  const toAdd = days.filter(day => !selectedKeys.has(toISODate(day)));
+  return addDates(removeDates(selected, days), toAdd);
+};
+
+/** Days between `start` and `end` that fall on one of `weekdays` (0 = Sunday). */
+export const matchWeekdayPattern = (start: Date, end: Date, weekdays: number[]) =>
+  daysBetween(start, end).filter(day => weekdays.includes(day.getDay()));
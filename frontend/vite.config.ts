@@ -1,17 +1,22 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mockApiPlugin } from './mocks/mockApi';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite --mode mock` serves the API from mocks/ and ignores BACKEND_URL so
+    // requests stay on the dev server.
+    const useMockApi = mode === 'mock';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...(useMockApi ? [mockApiPlugin()] : [])],
       define: {
-        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL || ''),
+        'process.env.BACKEND_URL': JSON.stringify(useMockApi ? '' : env.BACKEND_URL || ''),
+        'process.env.REQUIRE_REDACTION': JSON.stringify(env.REQUIRE_REDACTION || ''),
       },
       resolve: {
         alias: {
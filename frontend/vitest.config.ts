@@ -0,0 +1,11 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default defineConfig(configEnv =>
+  mergeConfig(viteConfig(configEnv), {
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./test/setup.ts'],
+    },
+  }),
+);